@@ -0,0 +1,134 @@
+import * as path from 'path';
+import { ExistingImport, PathType, SelectedItem } from './types';
+import { parseExistingImports } from './parsers';
+import { resolveImport } from './import-resolver';
+import { addImportStatement, removeImportStatements } from './file-operations';
+
+// Outcome of adding or removing imports in one file
+export interface BulkImportResult {
+    filePath: string;
+    content: string; // New file content
+    changed: string[]; // Imports added or removed
+    skipped: { importPath: string; reason: string }[];
+}
+
+// Import found in the selected files, with the files containing it
+export interface ImportChoice {
+    key: string;
+    type: ExistingImport['type'];
+    label: string;
+    files: string[];
+}
+
+/**
+ * Get the import path of a selected item as written in a specific target file
+ */
+function getImportPathForFile(item: SelectedItem, targetFile: string, pathType: PathType): string {
+    if (item.importName) return item.importName;
+    if (pathType === 'absolute') return item.absolutePath;
+    return path.relative(path.dirname(targetFile), item.filePath).split(path.sep).join('/');
+}
+
+/**
+ * Get the key identifying what an import points at: the resolved file, or the path as written
+ * for module names and imports that do not resolve
+ */
+function getImportKey(imp: ExistingImport, filePath: string, content: string): string {
+    const target = resolveImport(imp, filePath, content);
+    return target ? path.normalize(target) : `${imp.type}:${imp.path.trim()}`;
+}
+
+/**
+ * Add the selected imports to a file, writing paths relative to that file.
+ * Imports the file already has (pointing at the same file) and imports of the file itself are skipped.
+ */
+export function planBulkAdd(filePath: string, content: string, items: SelectedItem[], pathType: PathType): BulkImportResult {
+    const result: BulkImportResult = { filePath, content, changed: [], skipped: [] };
+    const existingKeys = new Set(parseExistingImports(content).map(imp => getImportKey(imp, filePath, content)));
+
+    for (const item of items) {
+        const importPath = getImportPathForFile(item, filePath, pathType);
+        if (path.normalize(item.filePath) === path.normalize(filePath)) {
+            result.skipped.push({ importPath, reason: 'is the file itself' });
+            continue;
+        }
+
+        const key = getImportKey({ type: item.importType!, path: importPath }, filePath, content);
+        if (existingKeys.has(key) || existingKeys.has(path.normalize(item.filePath))) {
+            result.skipped.push({ importPath, reason: 'already imported' });
+            continue;
+        }
+
+        try {
+            result.content = addImportStatement(result.content, item.importType!, importPath, item.args, item.alias, item.aliasMarker);
+        } catch (error) {
+            result.skipped.push({ importPath, reason: error instanceof Error ? error.message : 'Unknown error' });
+            continue;
+        }
+        result.changed.push(`${item.importType} ${importPath}`);
+        existingKeys.add(key);
+    }
+
+    return result;
+}
+
+/**
+ * Collect the imports of the given files, merging imports that point at the same file
+ */
+export function collectImportChoices(files: { filePath: string; content: string }[], relativePath: (filePath: string) => string): ImportChoice[] {
+    const choices = new Map<string, ImportChoice>();
+
+    for (const { filePath, content } of files) {
+        for (const imp of parseExistingImports(content)) {
+            const key = getImportKey(imp, filePath, content);
+            const isFileKey = !key.startsWith(`${imp.type}:`);
+            const choice = choices.get(key) || {
+                key,
+                type: imp.type,
+                label: isFileKey ? relativePath(key) : imp.path.trim(),
+                files: []
+            };
+            if (!choice.files.includes(filePath)) choice.files.push(filePath);
+            choices.set(key, choice);
+        }
+    }
+
+    return [...choices.values()].sort((a, b) => a.type.localeCompare(b.type) || a.label.localeCompare(b.label));
+}
+
+/**
+ * Remove the imports pointing at the chosen files or module names from a file
+ */
+export function planBulkRemove(filePath: string, content: string, keys: string[]): BulkImportResult {
+    const removed = parseExistingImports(content).filter(imp => keys.includes(getImportKey(imp, filePath, content)));
+    return {
+        filePath,
+        content: removed.length > 0 ? removeImportStatements(content, removed) : content,
+        changed: removed.map(imp => `${imp.type} ${imp.path}`),
+        skipped: []
+    };
+}
+
+/**
+ * Create a Markdown summary of what changed in each file
+ */
+export function formatBulkImportReport(title: string, results: BulkImportResult[], relativePath: (filePath: string) => string): string {
+    const changedCount = results.filter(result => result.changed.length > 0).length;
+    const lines = [`# ${title}`, '', `${changedCount} of ${results.length} file(s) changed.`, ''];
+
+    for (const result of results) {
+        lines.push(`## ${relativePath(result.filePath)}`, '');
+        for (const change of result.changed) {
+            lines.push(`- \`${change}\``);
+        }
+        for (const skipped of result.skipped) {
+            lines.push(`- \`${skipped.importPath}\` skipped (${skipped.reason})`);
+        }
+        if (result.changed.length === 0 && result.skipped.length === 0) {
+            lines.push('- No changes');
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
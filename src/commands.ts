@@ -5,10 +5,33 @@ import { ImportType, SelectedKeywordInfo } from './types';
 import { ImportTreeItem, KeywordTreeItem } from './tree/items';
 import { expandAllItems, setHasPendingChanges } from './tree/providers';
 import { extractKeywordsFromFile } from './parsers';
+import { findLibraryKeywords } from './libdoc';
+import { resolveImport } from './import-resolver';
+import { findUnusedImports } from './unused-imports';
+import { buildWorkspaceImportGraph, findImporters } from './import-graph';
+import { showDependencyGraph } from './dependency-graph';
+import { ImportPathStyle, planImportPathConversion, formatConversionReport } from './import-path-styles';
+import { EXCLUDED_FOLDERS } from './constants';
+import { organizeImports, getOrganizeImportsOptions } from './organize-imports';
+import { showImportPreview, resolveImportPreview } from './import-preview';
+import {
+    loadImportProfiles,
+    saveImportProfile,
+    createProfileImports,
+    pickImportProfiles,
+    mergeProfileImports,
+    getProfileImportStates,
+    getProfileImportLabel
+} from './import-profiles';
+import { BulkImportResult, planBulkAdd, planBulkRemove, collectImportChoices, formatBulkImportReport } from './bulk-imports';
 import {
     isRobotFrameworkFile,
     removeImportFromContent,
-    createRobotFile
+    removeImportStatements,
+    replaceImportPaths,
+    createRobotFile,
+    readFileContent,
+    applyContentChanges
 } from './file-operations';
 import {
     getTargetFile,
@@ -20,14 +43,154 @@ import {
 import {
     getCurrentTreeView,
     getCurrentTreeProvider,
-    getImportSelectionResolver,
+    resolveImportSelection,
     loadImportsForFile,
-    generatePreviewContent,
     editRobotFileImports,
-    createRobotFileWithImports
+    createRobotFileWithImports,
+    selectImportsForFiles,
+    applyImportProfilesToTree
 } from './import-manager';
 import { addCurrentlyViewedFile } from './file-view-tracker';
 
+/**
+ * Resolve a Current Imports item to a file relative to the file whose imports are being edited
+ */
+function resolveCurrentImport(item: ImportTreeItem): string | undefined {
+    const importingFile = getCurrentTreeProvider()?.getTargetFile() || getOriginalTargetFile();
+    if (!importingFile || !item.existingImport) return undefined;
+    return resolveImport(item.existingImport, importingFile);
+}
+
+/**
+ * Open a file without losing the import target: the target file is locked before switching editors
+ */
+async function openFileKeepingTarget(filePath: string): Promise<void> {
+    // Auto-lock the current target file before viewing another file
+    if (!isLocked()) {
+        const targetFile = getTargetFile();
+        if (targetFile) {
+            lockTargetFile(targetFile);
+        }
+    }
+
+    try {
+        const document = await vscode.workspace.openTextDocument(filePath);
+        await vscode.window.showTextDocument(document, { preview: true });
+        // Explicitly add to currently viewed files since onDidChangeActiveTextEditor may not fire immediately
+        addCurrentlyViewedFile(filePath);
+
+        // Always ensure the target file is locked when viewing an importable file
+        // Use the original target file (not the currently active one) to maintain the correct context
+        const originalTargetFile = getOriginalTargetFile();
+        if (originalTargetFile) {
+            lockTargetFile(originalTargetFile);
+        }
+    } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to open file: ${msg}`);
+    }
+}
+
+/**
+ * Reload the import tree when the file being edited was among the changed files, keeping the lock
+ */
+async function reloadImportsIfChanged(changedFiles: string[]): Promise<void> {
+    const currentTargetFile = getTargetFile();
+    if (!currentTargetFile || !changedFiles.includes(currentTargetFile)) return;
+
+    const wasLocked = isLocked();
+    const lockedFile = getLockedTargetFile();
+    await loadImportsForFile(currentTargetFile);
+    if (wasLocked && lockedFile) {
+        lockTargetFile(lockedFile);
+    }
+}
+
+/**
+ * Get the .robot and .resource files a command works on: all files of the selected folders,
+ * the selected files, or (without an explorer selection) the active file or the whole workspace
+ */
+async function getRobotFilesForCommand(
+    uri: vscode.Uri | undefined,
+    placeHolder: string,
+    selectedUris?: vscode.Uri[]
+): Promise<string[] | undefined> {
+    if (!uri) {
+        const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const scopes = [
+            ...(activeFile && isRobotFrameworkFile(activeFile) ? [{ label: '$(file) Active File', description: path.basename(activeFile) }] : []),
+            { label: '$(root-folder) Workspace', description: 'All .robot and .resource files' }
+        ];
+        const scope = await vscode.window.showQuickPick(scopes, { placeHolder });
+        if (!scope) return undefined;
+        if (activeFile && scope.label.includes('Active File')) return [activeFile];
+
+        const found = await vscode.workspace.findFiles('**/*.{robot,resource}', EXCLUDED_FOLDERS);
+        return found.map(file => file.fsPath).sort();
+    }
+
+    // Explorer commands get the clicked item and all selected items
+    const files = new Set<string>();
+    for (const selected of selectedUris && selectedUris.length > 0 ? selectedUris : [uri]) {
+        if (fs.statSync(selected.fsPath).isDirectory()) {
+            const found = await vscode.workspace.findFiles(new vscode.RelativePattern(selected.fsPath, '**/*.{robot,resource}'), EXCLUDED_FOLDERS);
+            found.forEach(file => files.add(file.fsPath));
+        } else if (isRobotFrameworkFile(selected.fsPath)) {
+            files.add(selected.fsPath);
+        }
+    }
+    if (files.size === 0) {
+        vscode.window.showWarningMessage('This command works on .robot and .resource files.');
+        return undefined;
+    }
+    return [...files].sort();
+}
+
+/**
+ * Show a Markdown summary of a bulk import change next to a notification
+ */
+async function showBulkImportReport(title: string, results: BulkImportResult[]): Promise<void> {
+    const report = await vscode.workspace.openTextDocument({
+        content: formatBulkImportReport(title, results, file => vscode.workspace.asRelativePath(file)),
+        language: 'markdown'
+    });
+    await vscode.window.showTextDocument(report, { preview: true });
+}
+
+/**
+ * Find the files importing a file and show them in the Imported By section,
+ * or in a quick pick when the import selector is not open
+ */
+async function showImportedBy(filePath: string, transitive: boolean): Promise<void> {
+    const importers = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Finding importing files...' },
+        async () => findImporters(await buildWorkspaceImportGraph(), filePath, transitive)
+    );
+
+    const currentTreeProvider = getCurrentTreeProvider();
+    if (currentTreeProvider) {
+        currentTreeProvider.setImportedBy(filePath, importers, transitive);
+        return;
+    }
+
+    if (importers.length === 0) {
+        vscode.window.showInformationMessage(`No files import ${path.basename(filePath)}.`);
+        return;
+    }
+    const selected = await vscode.window.showQuickPick(
+        importers.map(entry => ({
+            label: path.basename(entry.filePath),
+            description: vscode.workspace.asRelativePath(entry.filePath),
+            detail: entry.via ? `via ${path.basename(entry.via)}` : undefined,
+            filePath: entry.filePath
+        })),
+        { title: `Imported By ${path.basename(filePath)}`, placeHolder: 'Select a file to open' }
+    );
+    if (selected) {
+        await openFileKeepingTarget(selected.filePath);
+    }
+}
+
 /**
  * Register all extension commands
  */
@@ -75,23 +238,13 @@ export function registerCommands(context: vscode.ExtensionContext): void {
     // Register command: Confirm Imports (for tree view title bar)
     const confirmImports = vscode.commands.registerCommand(
         'rfFilesCreator.confirmImports',
-        () => {
-            const resolver = getImportSelectionResolver();
-            if (resolver) {
-                resolver(true);
-            }
-        }
+        () => resolveImportSelection(true)
     );
 
     // Register command: Cancel Imports (for tree view title bar)
     const cancelImports = vscode.commands.registerCommand(
         'rfFilesCreator.cancelImports',
-        () => {
-            const resolver = getImportSelectionResolver();
-            if (resolver) {
-                resolver(false);
-            }
-        }
+        () => resolveImportSelection(false)
     );
 
     // Register command: Select Import Type (when clicking on a file)
@@ -107,6 +260,20 @@ export function registerCommands(context: vscode.ExtensionContext): void {
                 description: item.selectedImportType === type ? '(current)' : ''
             }));
 
+            // Libraries and variable files accept arguments, only libraries accept an alias
+            if (item.selectedImportType === 'Library' || item.selectedImportType === 'Variables') {
+                options.push({
+                    label: '$(symbol-parameter) Edit Arguments...',
+                    description: item.importArgs.length > 0 ? item.importArgs.join(' | ') : 'No arguments'
+                });
+            }
+            if (item.selectedImportType === 'Library') {
+                options.push({
+                    label: '$(tag) Edit Alias...',
+                    description: item.importAlias ? `${item.importAliasMarker || 'AS'} ${item.importAlias}` : 'No alias'
+                });
+            }
+
             // Add option to remove/deselect
             if (item.selectedImportType) {
                 options.push({
@@ -123,6 +290,28 @@ export function registerCommands(context: vscode.ExtensionContext): void {
             if (selected) {
                 if (selected.label === '$(close) Remove Import') {
                     currentTreeProvider.setImportType(item, null);
+                } else if (selected.label === '$(symbol-parameter) Edit Arguments...') {
+                    const argsInput = await vscode.window.showInputBox({
+                        title: `Arguments for ${item.label}`,
+                        prompt: 'Separate arguments with two or more spaces (e.g. timeout=10    implicit_wait=2)',
+                        value: item.importArgs.join('    ')
+                    });
+                    if (argsInput !== undefined) {
+                        const args = argsInput.split(/\s{2,}|\t+/).map(arg => arg.trim()).filter(arg => arg !== '');
+                        currentTreeProvider.setImportDetails(item, args, item.importAlias);
+                    }
+                } else if (selected.label === '$(tag) Edit Alias...') {
+                    const aliasInput = await vscode.window.showInputBox({
+                        title: `Alias for ${item.label}`,
+                        prompt: 'Name to import the library with (leave empty to remove the alias)',
+                        value: item.importAlias,
+                        validateInput: (value) => {
+                            return /\s{2,}|\t/.test(value.trim()) ? 'Alias cannot contain separators' : null;
+                        }
+                    });
+                    if (aliasInput !== undefined) {
+                        currentTreeProvider.setImportDetails(item, item.importArgs, aliasInput.trim());
+                    }
                 } else {
                     currentTreeProvider.setImportType(item, selected.label as ImportType);
                 }
@@ -130,27 +319,31 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         }
     );
 
-    // Register command: Preview Imports
+    // Register command: Preview Imports (diff of the target file before and after confirming)
     const previewImports = vscode.commands.registerCommand(
         'rfFilesCreator.previewImports',
-        () => {
-            const currentTreeProvider = getCurrentTreeProvider();
-            if (currentTreeProvider) {
-                const selectedItems = currentTreeProvider.getSelectedItems();
-                if (selectedItems.length === 0) {
-                    vscode.window.showInformationMessage('No imports selected to preview.');
-                    return;
-                }
-
-                // Generate preview content for selected imports
-                const previewContent = generatePreviewContent(selectedItems);
-
-                // Show the preview in an information message
-                vscode.window.showInformationMessage(`Preview:\n${previewContent}`, 'OK');
+        async () => {
+            try {
+                await showImportPreview();
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to preview imports: ${msg}`);
             }
         }
     );
 
+    // Register command: Apply the previewed imports (diff editor title bar)
+    const applyImportPreview = vscode.commands.registerCommand(
+        'rfFilesCreator.applyImportPreview',
+        () => resolveImportPreview(true)
+    );
+
+    // Register command: Discard the previewed imports (diff editor title bar)
+    const discardImportPreview = vscode.commands.registerCommand(
+        'rfFilesCreator.discardImportPreview',
+        () => resolveImportPreview(false)
+    );
+
     // Register command: Search Imports
     const searchImports = vscode.commands.registerCommand(
         'rfFilesCreator.searchImports',
@@ -211,30 +404,7 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         'rfFilesCreator.viewFile',
         async (item: ImportTreeItem) => {
             if (item && item.isFile && item.filePath) {
-                // Auto-lock the current target file before viewing another file
-                if (!isLocked()) {
-                    const targetFile = getTargetFile();
-                    if (targetFile) {
-                        lockTargetFile(targetFile);
-                    }
-                }
-
-                try {
-                    const document = await vscode.workspace.openTextDocument(item.filePath);
-                    await vscode.window.showTextDocument(document, { preview: true });
-                    // Explicitly add to currently viewed files since onDidChangeActiveTextEditor may not fire immediately
-                    addCurrentlyViewedFile(item.filePath);
-
-                    // Always ensure the target file is locked when viewing an importable file
-                    // Use the original target file (not the currently active one) to maintain the correct context
-                    const originalTargetFile = getOriginalTargetFile();
-                    if (originalTargetFile) {
-                        lockTargetFile(originalTargetFile);
-                    }
-                } catch (error) {
-                    const msg = error instanceof Error ? error.message : 'Unknown error';
-                    vscode.window.showErrorMessage(`Failed to open file: ${msg}`);
-                }
+                await openFileKeepingTarget(item.filePath);
             }
         }
     );
@@ -302,16 +472,17 @@ export function registerCommands(context: vscode.ExtensionContext): void {
 
                 if (confirm === 'Yes') {
                     try {
-                        // Read current file content
-                        const currentContent = fs.readFileSync(targetFile, 'utf8');
+                        // Read current content, including unsaved editor changes
+                        const currentContent = readFileContent(targetFile);
 
                         // Remove the import from the content
-                        const updatedContent = removeImportFromContent(currentContent, item.label as string, item.description as string);
+                        const importType = item.existingImport ? item.existingImport.type : item.description as string;
+                        const updatedContent = removeImportFromContent(currentContent, item.label as string, importType);
 
-                        // Write back to file
-                        fs.writeFileSync(targetFile, updatedContent, 'utf8');
+                        // Write back through the editor buffer so the removal can be undone
+                        await applyContentChanges([{ filePath: targetFile, content: updatedContent }]);
 
-                        // Refresh the document if it's open
+                        // Show the updated document
                         const document = await vscode.workspace.openTextDocument(targetFile);
                         await vscode.window.showTextDocument(document);
 
@@ -336,6 +507,401 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         }
     );
 
+    // Register command: Remove Unused Imports (file or folder from the explorer, active file or workspace)
+    const removeUnusedImports = vscode.commands.registerCommand(
+        'rfFilesCreator.removeUnusedImports',
+        async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            const files = await getRobotFilesForCommand(uri, 'Remove unused imports in...', uris);
+            if (!files) return;
+
+            const unusedByFile = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Finding unused imports...' },
+                async () => files
+                    .map(file => {
+                        const content = readFileContent(file);
+                        return { file, content, unused: findUnusedImports(content, file) };
+                    })
+                    .filter(result => result.unused.length > 0)
+            );
+
+            if (unusedByFile.length === 0) {
+                vscode.window.showInformationMessage('No unused imports found.');
+                return;
+            }
+
+            const total = unusedByFile.reduce((count, result) => count + result.unused.length, 0);
+            const details = unusedByFile
+                .map(result => `${path.basename(result.file)}: ${result.unused.map(imp => `${imp.type} ${imp.path}`).join(', ')}`)
+                .join('\n');
+            const confirm = await vscode.window.showWarningMessage(
+                `Remove ${total} unused import(s) from ${unusedByFile.length} file(s)?`,
+                { modal: true, detail: details },
+                'Remove'
+            );
+            if (confirm !== 'Remove') return;
+
+            try {
+                await applyContentChanges(unusedByFile.map(result => ({
+                    filePath: result.file,
+                    content: removeImportStatements(result.content, result.unused)
+                })));
+
+                await reloadImportsIfChanged(unusedByFile.map(result => result.file));
+
+                vscode.window.showInformationMessage(`Removed ${total} unused import(s) from ${unusedByFile.length} file(s).`);
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to remove unused imports: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Show Imported By (explorer file, tree file item or current import)
+    const showImportedByCommand = vscode.commands.registerCommand(
+        'rfFilesCreator.showImportedBy',
+        async (target?: vscode.Uri | ImportTreeItem) => {
+            let filePath: string | undefined;
+            if (target instanceof ImportTreeItem) {
+                filePath = target.contextValue === 'currentImport' ? resolveCurrentImport(target) : target.filePath;
+            } else {
+                filePath = target?.fsPath || vscode.window.activeTextEditor?.document.uri.fsPath;
+            }
+
+            if (!filePath) {
+                vscode.window.showWarningMessage('No file selected.');
+                return;
+            }
+            const transitive = getCurrentTreeProvider()?.getImportedBySource()?.transitive ?? false;
+            await showImportedBy(filePath, transitive);
+        }
+    );
+
+    // Register command: Toggle transitive dependents in the Imported By section
+    const toggleImportedByTransitive = vscode.commands.registerCommand(
+        'rfFilesCreator.toggleImportedByTransitive',
+        async () => {
+            const source = getCurrentTreeProvider()?.getImportedBySource();
+            if (source) {
+                await showImportedBy(source.filePath, !source.transitive);
+            }
+        }
+    );
+
+    // Register command: Open a file from the Imported By section - auto-locks target
+    const openImportingFile = vscode.commands.registerCommand(
+        'rfFilesCreator.openImportingFile',
+        async (filePath: string) => {
+            if (filePath) {
+                await openFileKeepingTarget(filePath);
+            }
+        }
+    );
+
+    // Register command: Show Import Dependency Graph
+    const showDependencyGraphCommand = vscode.commands.registerCommand(
+        'rfFilesCreator.showDependencyGraph',
+        async () => {
+            try {
+                await showDependencyGraph();
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to build dependency graph: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Convert Import Path Style (file or folder from the explorer, active file or workspace)
+    const convertImportPaths = vscode.commands.registerCommand(
+        'rfFilesCreator.convertImportPaths',
+        async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            const files = await getRobotFilesForCommand(uri, 'Convert imports in...', uris);
+            if (!files) return;
+
+            const styles: (vscode.QuickPickItem & { style: ImportPathStyle })[] = [
+                { label: '$(link) Relative Path', description: '../Resources/x.resource', style: 'relative' },
+                { label: '$(home) Workspace Path', description: 'Resources/x.resource', style: 'workspace' },
+                { label: '$(symbol-variable) ${CURDIR} Path', description: '${CURDIR}/../Resources/x.resource', style: 'curdir' },
+                { label: '$(whitespace) Normalize Separators', description: 'Replace \\ with / only', style: 'separators' }
+            ];
+            const selected = await vscode.window.showQuickPick(styles, {
+                title: 'Convert Import Path Style',
+                placeHolder: 'Convert import paths to...'
+            });
+            if (!selected) return;
+
+            const plannedContents = new Map(files.map(file => [file, readFileContent(file)]));
+            const plans = files.map(file => planImportPathConversion(file, plannedContents.get(file)!, selected.style));
+            const changedPlans = plans.filter(plan => plan.changes.length > 0);
+            const total = changedPlans.reduce((count, plan) => count + plan.changes.length, 0);
+            const skippedCount = plans.reduce((count, plan) => count + plan.skipped.length, 0);
+            if (total === 0) {
+                vscode.window.showInformationMessage(
+                    `No import paths to convert${skippedCount > 0 ? ` (${skippedCount} skipped)` : ''}.`
+                );
+                return;
+            }
+
+            // Dry run: show the report before anything is written
+            const report = await vscode.workspace.openTextDocument({
+                content: formatConversionReport(plans, selected.style, file => vscode.workspace.asRelativePath(file)),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(report, { preview: true });
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Convert ${total} import path(s) in ${changedPlans.length} file(s)?`,
+                { modal: true, detail: skippedCount > 0 ? `${skippedCount} import(s) are skipped, see the report.` : undefined },
+                'Convert'
+            );
+            if (confirm !== 'Convert') return;
+
+            try {
+                // Files edited while the report was open are planned again, so the token positions match
+                await applyContentChanges(changedPlans.map(plan => {
+                    const content = readFileContent(plan.filePath);
+                    const changes = content === plannedContents.get(plan.filePath)
+                        ? plan.changes
+                        : planImportPathConversion(plan.filePath, content, selected.style).changes;
+                    return { filePath: plan.filePath, content: replaceImportPaths(content, changes) };
+                }));
+                await reloadImportsIfChanged(changedPlans.map(plan => plan.filePath));
+                vscode.window.showInformationMessage(`Converted ${total} import path(s) in ${changedPlans.length} file(s).`);
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to convert import paths: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Add Import to Selected Files (explorer files and folders)
+    const addImportToFiles = vscode.commands.registerCommand(
+        'rfFilesCreator.addImportToFiles',
+        async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            const files = await getRobotFilesForCommand(uri, 'Add imports to...', uris);
+            if (!files) return;
+
+            const selection = await selectImportsForFiles(files);
+            if (!selection) return;
+            if (selection.items.length === 0) {
+                vscode.window.showInformationMessage('No imports selected.');
+                return;
+            }
+
+            try {
+                const results = files.map(file => planBulkAdd(file, readFileContent(file), selection.items, selection.pathType));
+                const changed = results.filter(result => result.changed.length > 0);
+                await applyContentChanges(changed.map(result => ({ filePath: result.filePath, content: result.content })));
+                await reloadImportsIfChanged(changed.map(result => result.filePath));
+
+                await showBulkImportReport('Add imports', results);
+                vscode.window.showInformationMessage(`Added imports to ${changed.length} of ${files.length} file(s).`);
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to add imports: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Remove Import from Selected Files (explorer files and folders)
+    const removeImportFromFiles = vscode.commands.registerCommand(
+        'rfFilesCreator.removeImportFromFiles',
+        async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            const files = await getRobotFilesForCommand(uri, 'Remove imports from...', uris);
+            if (!files) return;
+
+            const contents = files.map(filePath => ({ filePath, content: readFileContent(filePath) }));
+            const choices = collectImportChoices(contents, file => vscode.workspace.asRelativePath(file));
+            if (choices.length === 0) {
+                vscode.window.showInformationMessage('The selected files have no imports.');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                choices.map(choice => ({
+                    label: choice.label,
+                    description: `${choice.type} · ${choice.files.length} file(s)`,
+                    choice
+                })),
+                { title: 'Remove Import from Selected Files', placeHolder: 'Select imports to remove', canPickMany: true }
+            );
+            if (!picked || picked.length === 0) return;
+
+            const keys = picked.map(item => item.choice.key);
+            const results = contents.map(({ filePath, content }) => planBulkRemove(filePath, content, keys));
+            const changed = results.filter(result => result.changed.length > 0);
+            const total = changed.reduce((count, result) => count + result.changed.length, 0);
+
+            const confirm = await vscode.window.showWarningMessage(
+                `Remove ${total} import(s) from ${changed.length} file(s)?`,
+                { modal: true, detail: changed.map(result => `${path.basename(result.filePath)}: ${result.changed.join(', ')}`).join('\n') },
+                'Remove'
+            );
+            if (confirm !== 'Remove') return;
+
+            try {
+                await applyContentChanges(changed.map(result => ({ filePath: result.filePath, content: result.content })));
+                await reloadImportsIfChanged(changed.map(result => result.filePath));
+
+                await showBulkImportReport('Remove imports', results);
+                vscode.window.showInformationMessage(`Removed ${total} import(s) from ${changed.length} file(s).`);
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to remove imports: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Save the import tree selection as an import profile
+    const saveImportProfileCommand = vscode.commands.registerCommand(
+        'rfFilesCreator.saveImportProfile',
+        async () => {
+            const currentTreeProvider = getCurrentTreeProvider();
+            if (!currentTreeProvider) {
+                vscode.window.showWarningMessage('Open the import selector to save its selection as a profile.');
+                return;
+            }
+
+            const imports = createProfileImports(currentTreeProvider.getSelectedItems(), currentTreeProvider.getUnmatchedExistingImports());
+            if (imports.length === 0) {
+                vscode.window.showInformationMessage('Select imports in the tree before saving a profile.');
+                return;
+            }
+
+            try {
+                const existingNames = loadImportProfiles().map(profile => profile.name);
+                const name = await vscode.window.showInputBox({
+                    prompt: `Save ${imports.length} import(s) as profile`,
+                    placeHolder: 'Web UI tests',
+                    validateInput: value => value?.trim() ? null : 'Profile name cannot be empty'
+                });
+                if (!name) return;
+
+                if (existingNames.includes(name.trim())) {
+                    const overwrite = await vscode.window.showWarningMessage(
+                        `Import profile "${name.trim()}" exists. Overwrite?`, { modal: true }, 'Overwrite'
+                    );
+                    if (overwrite !== 'Overwrite') return;
+                }
+
+                saveImportProfile({ name: name.trim(), imports });
+                vscode.window.showInformationMessage(
+                    `Saved import profile "${name.trim()}" with ${imports.length} import(s) to .vscode/rf-import-profiles.json`
+                );
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to save import profile: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Select the imports of one or more profiles in the import tree
+    const applyImportProfile = vscode.commands.registerCommand(
+        'rfFilesCreator.applyImportProfile',
+        async () => {
+            if (!getCurrentTreeProvider()) {
+                vscode.window.showWarningMessage('Open the import selector to apply an import profile.');
+                return;
+            }
+
+            try {
+                const profiles = loadImportProfiles();
+                if (profiles.length === 0) {
+                    vscode.window.showInformationMessage('No import profiles saved yet. Use Save Import Profile first.');
+                    return;
+                }
+
+                const selected = await pickImportProfiles(profiles, 'Select import profiles to apply');
+                if (!selected || selected.length === 0) return;
+
+                const notFound = applyImportProfilesToTree(selected);
+                if (notFound.length > 0) {
+                    vscode.window.showWarningMessage(
+                        `Files not found in the workspace: ${notFound.map(imp => getProfileImportLabel(imp)).join(', ')}`
+                    );
+                }
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to apply import profile: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Show which imports of a profile a file is missing
+    const checkImportProfile = vscode.commands.registerCommand(
+        'rfFilesCreator.checkImportProfile',
+        async () => {
+            const workspaceFolders = vscode.workspace.workspaceFolders;
+            const currentTreeProvider = getCurrentTreeProvider();
+            const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+            const filePath = currentTreeProvider?.getTargetFile() || (activeFile && isRobotFrameworkFile(activeFile) ? activeFile : undefined);
+            if (!workspaceFolders || !filePath) {
+                vscode.window.showWarningMessage('Open a .robot or .resource file to check it against an import profile.');
+                return;
+            }
+
+            try {
+                const profiles = loadImportProfiles();
+                if (profiles.length === 0) {
+                    vscode.window.showInformationMessage('No import profiles saved yet. Use Save Import Profile first.');
+                    return;
+                }
+
+                const selected = await pickImportProfiles(profiles, `Check ${path.basename(filePath)} against...`);
+                if (!selected || selected.length === 0) return;
+
+                const content = fs.existsSync(filePath) ? readFileContent(filePath) : '';
+                const states = getProfileImportStates(mergeProfileImports(selected), filePath, content, workspaceFolders[0].uri.fsPath);
+                const missing = states.filter(entry => entry.state === 'missing');
+
+                if (currentTreeProvider) {
+                    currentTreeProvider.setProfileStates(selected.map(profile => profile.name), states);
+                    vscode.window.showInformationMessage(`${path.basename(filePath)} is missing ${missing.length} of ${states.length} profile import(s).`);
+                    return;
+                }
+                if (missing.length === 0) {
+                    vscode.window.showInformationMessage(`${path.basename(filePath)} has all ${states.length} profile import(s).`);
+                    return;
+                }
+                await vscode.window.showQuickPick(
+                    missing.map(entry => ({ label: getProfileImportLabel(entry.imp), description: entry.imp.type })),
+                    { title: `Missing in ${path.basename(filePath)}`, placeHolder: `${missing.length} of ${states.length} profile import(s) missing` }
+                );
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to check import profile: ${msg}`);
+            }
+        }
+    );
+
+    // Register command: Organize Imports (explorer file or active editor)
+    const organizeImportsCommand = vscode.commands.registerCommand(
+        'rfFilesCreator.organizeImports',
+        async (uri?: vscode.Uri) => {
+            const document = uri
+                ? await vscode.workspace.openTextDocument(uri)
+                : vscode.window.activeTextEditor?.document;
+            if (!document || !isRobotFrameworkFile(document.uri.fsPath)) {
+                vscode.window.showWarningMessage('Organize Imports works on .robot and .resource files.');
+                return;
+            }
+
+            const content = document.getText();
+            const organized = organizeImports(content, getOrganizeImportsOptions());
+            if (organized === content) {
+                vscode.window.showInformationMessage('Imports are already organized.');
+                return;
+            }
+
+            try {
+                await applyContentChanges([{ filePath: document.uri.fsPath, content: organized }]);
+                await reloadImportsIfChanged([document.uri.fsPath]);
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to organize imports: ${msg}`);
+            }
+        }
+    );
+
     // Register command: View Current Import
     const viewCurrentImport = vscode.commands.registerCommand(
         'rfFilesCreator.viewCurrentImport',
@@ -349,50 +915,16 @@ export function registerCommands(context: vscode.ExtensionContext): void {
                     }
                 }
 
-                // Find the actual file path by searching in the workspace
                 const importPath = item.label as string;
-                let filePath: string | undefined;
-
-                // Try to find the file in the workspace
-                const allFiles = await vscode.workspace.findFiles('**/*.{py,robot,resource,txt,csv,json,yaml,yml}', '{**/node_modules/**,**/venv/**,**/.venv/**,**/__pycache__/**}');
 
-                for (const file of allFiles) {
-                    const fileName = path.basename(file.fsPath);
-                    if (fileName === importPath) {
-                        filePath = file.fsPath;
-                        break;
-                    }
-                    // Only match if importPath is a path component (not substring)
-                    // Normalize both paths for comparison
-                    const normalizedFilePath = path.normalize(file.fsPath).replace(/\\/g, '/');
-                    const normalizedImportPath = path.normalize(importPath).replace(/\\/g, '/');
-                    if (normalizedFilePath.endsWith(normalizedImportPath)) {
-                        const idx = normalizedFilePath.lastIndexOf(normalizedImportPath);
-                        if (idx >= 0) {
-                            const beforeMatch = normalizedFilePath.substring(0, idx);
-                            if (beforeMatch === '' || beforeMatch.endsWith('/')) {
-                                filePath = file.fsPath;
-                                break;
-                            }
-                        }
-                    }
+                // Standard libraries and Libdoc specs have no file to open, show their keywords instead
+                if (item.existingImport?.type === 'Library' && findLibraryKeywords(importPath)) {
+                    await vscode.commands.executeCommand('rfFilesCreator.viewKeywords', item);
+                    return;
                 }
 
-                if (!filePath) {
-                    // If we can't find the file exactly, try to construct a path relative to the workspace
-                    const workspaceFolders = vscode.workspace.workspaceFolders;
-                    if (workspaceFolders && workspaceFolders.length > 0) {
-                        const workspaceRoot = workspaceFolders[0].uri.fsPath;
-                        const normalizedImportPath = importPath.replace(/\//g, path.sep).replace(/\\/g, path.sep);
-                        const potentialPath = path.resolve(path.join(workspaceRoot, normalizedImportPath));
-
-                        // Security: Ensure resolved path is within workspace (prevent path traversal)
-                        const normalizedWorkspaceRoot = path.resolve(workspaceRoot);
-                        if (potentialPath.startsWith(normalizedWorkspaceRoot) && fs.existsSync(potentialPath)) {
-                            filePath = potentialPath;
-                        }
-                    }
-                }
+                // Resolve the import the way Robot Framework does
+                const filePath = resolveCurrentImport(item);
 
                 if (filePath) {
                     try {
@@ -430,48 +962,24 @@ export function registerCommands(context: vscode.ExtensionContext): void {
                     // For importable files from the tree, use the stored file path
                     filePath = item.filePath;
                 } else if (item.contextValue === 'currentImport') {
-                    // For current imports, try to locate the file in workspace
+                    // For current imports, resolve the import string to a file
                     const importPath = item.label as string;
 
-                    // Try to find the file in the workspace
-                    const allFiles = await vscode.workspace.findFiles('**/*.{py,robot,resource,txt,csv,json,yaml,yml}', '{**/node_modules/**,**/venv/**,**/.venv/**,**/__pycache__/**}');
-
-                    for (const file of allFiles) {
-                        const fileName = path.basename(file.fsPath);
-                        if (fileName === importPath) {
-                            filePath = file.fsPath;
-                            break;
-                        }
-                        // Only match if importPath is a path component (not substring)
-                        const normalizedFilePath = path.normalize(file.fsPath).replace(/\\/g, '/');
-                        const normalizedImportPath = path.normalize(importPath).replace(/\\/g, '/');
-                        if (normalizedFilePath.endsWith(normalizedImportPath)) {
-                            const idx = normalizedFilePath.lastIndexOf(normalizedImportPath);
-                            if (idx >= 0) {
-                                const beforeMatch = normalizedFilePath.substring(0, idx);
-                                if (beforeMatch === '' || beforeMatch.endsWith('/')) {
-                                    filePath = file.fsPath;
-                                    break;
-                                }
-                            }
+                    // Library names come from Libdoc specs or the bundled standard library catalog
+                    const librarySource = item.existingImport?.type === 'Library' ? findLibraryKeywords(importPath) : null;
+                    if (librarySource) {
+                        const currentTreeProvider = getCurrentTreeProvider();
+                        if (currentTreeProvider) {
+                            currentTreeProvider.setKeywords(librarySource.keywords, librarySource.source);
+                            vscode.window.showInformationMessage(`Showing ${librarySource.keywords.length} keywords from ${path.basename(librarySource.source)}`);
+                        } else {
+                            vscode.window.showWarningMessage('Import selector not available');
                         }
+                        return;
                     }
 
-                    if (!filePath) {
-                        // If we can't find the file exactly, try to construct a path relative to the workspace
-                        const workspaceFolders = vscode.workspace.workspaceFolders;
-                        if (workspaceFolders && workspaceFolders.length > 0) {
-                            const workspaceRoot = workspaceFolders[0].uri.fsPath;
-                            const normalizedImportPath = importPath.replace(/\//g, path.sep).replace(/\\/g, path.sep);
-                            const potentialPath = path.resolve(path.join(workspaceRoot, normalizedImportPath));
-
-                            // Security: Ensure resolved path is within workspace (prevent path traversal)
-                            const normalizedWorkspaceRoot = path.resolve(workspaceRoot);
-                            if (potentialPath.startsWith(normalizedWorkspaceRoot) && fs.existsSync(potentialPath)) {
-                                filePath = potentialPath;
-                            }
-                        }
-                    }
+                    // Resolve the import the way Robot Framework does
+                    filePath = resolveCurrentImport(item);
                 }
 
                 if (filePath) {
@@ -593,6 +1101,8 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         cancelImports,
         selectImportType,
         previewImports,
+        applyImportPreview,
+        discardImportPreview,
         searchImports,
         clearSearch,
         expandAll,
@@ -601,6 +1111,18 @@ export function registerCommands(context: vscode.ExtensionContext): void {
         goToTarget,
         refreshImports,
         deleteImport,
+        removeUnusedImports,
+        showImportedByCommand,
+        toggleImportedByTransitive,
+        openImportingFile,
+        showDependencyGraphCommand,
+        convertImportPaths,
+        organizeImportsCommand,
+        addImportToFiles,
+        removeImportFromFiles,
+        saveImportProfileCommand,
+        applyImportProfile,
+        checkImportProfile,
         viewCurrentImport,
         viewKeywords,
         insertKeywordFromTree,
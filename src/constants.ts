@@ -10,3 +10,6 @@ export const ALLOWED_FOLDERS = [
     'Utility',
     'Resource'
 ];
+
+// Folders skipped when searching the workspace for import candidates
+export const EXCLUDED_FOLDERS = '{**/node_modules/**,**/venv/**,**/.venv/**,**/__pycache__/**}';
@@ -0,0 +1,477 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ImportType } from './types';
+import { parseRobotDocument } from './robot-document';
+import { getDefaultLanguages } from './import-resolver';
+import { buildWorkspaceImportGraph, ImportGraph } from './import-graph';
+
+// Kind of file a graph node represents, used for coloring
+type NodeKind = 'robot' | 'resource' | 'python' | 'other';
+
+// File in the dependency graph
+export interface GraphNode {
+    id: string; // Identifier used in DOT and Mermaid output
+    filePath: string;
+    label: string;
+    kind: NodeKind;
+    orphan: boolean; // Resource file that nothing imports
+    inCycle: boolean;
+}
+
+// Import between two files in the dependency graph
+export interface GraphEdge {
+    from: number; // Node indexes
+    to: number;
+    type: ImportType;
+    inCycle: boolean;
+}
+
+export interface DependencyGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+    cycles: number[][]; // Node indexes of each import cycle
+}
+
+// Node colors by kind, shared by the webview and the exports
+const NODE_COLORS: { [kind in NodeKind]: string } = {
+    robot: '#4e79a7',
+    resource: '#59a14f',
+    python: '#f28e2b',
+    other: '#9c755f'
+};
+const CYCLE_COLOR = '#e15759';
+
+// Layout of the rendered graph
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 32;
+const LAYER_GAP = 90;
+const ROW_GAP = 24;
+const MARGIN = 20;
+
+let currentPanel: vscode.WebviewPanel | undefined;
+let currentGraph: DependencyGraph | undefined;
+
+/**
+ * Get the kind of a file from its extension
+ */
+function getNodeKind(filePath: string): NodeKind {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.robot': return 'robot';
+        case '.resource': return 'resource';
+        case '.py': return 'python';
+        default: return 'other';
+    }
+}
+
+/**
+ * Check if a file is a resource: `.resource` files and `.robot` files without tests or tasks
+ */
+function isResourceFile(filePath: string): boolean {
+    const kind = getNodeKind(filePath);
+    if (kind === 'resource') return true;
+    if (kind !== 'robot') return false;
+    try {
+        const document = parseRobotDocument(fs.readFileSync(filePath, 'utf8'), getDefaultLanguages());
+        return document.testCases.length === 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find the import cycles of a graph: strongly connected components with more than one node,
+ * or a single node importing itself (Tarjan's algorithm)
+ */
+function findCycles(nodeCount: number, edges: GraphEdge[]): number[][] {
+    const successors: number[][] = Array.from({ length: nodeCount }, () => []);
+    edges.forEach(edge => successors[edge.from].push(edge.to));
+
+    const indexes: number[] = new Array(nodeCount).fill(-1);
+    const lowLinks: number[] = new Array(nodeCount).fill(0);
+    const onStack: boolean[] = new Array(nodeCount).fill(false);
+    const stack: number[] = [];
+    const cycles: number[][] = [];
+    let nextIndex = 0;
+
+    const visit = (node: number): void => {
+        indexes[node] = lowLinks[node] = nextIndex++;
+        stack.push(node);
+        onStack[node] = true;
+
+        for (const successor of successors[node]) {
+            if (indexes[successor] < 0) {
+                visit(successor);
+                lowLinks[node] = Math.min(lowLinks[node], lowLinks[successor]);
+            } else if (onStack[successor]) {
+                lowLinks[node] = Math.min(lowLinks[node], indexes[successor]);
+            }
+        }
+
+        if (lowLinks[node] === indexes[node]) {
+            const component: number[] = [];
+            let member: number;
+            do {
+                member = stack.pop()!;
+                onStack[member] = false;
+                component.push(member);
+            } while (member !== node);
+
+            if (component.length > 1 || successors[node].includes(node)) {
+                cycles.push(component.sort((a, b) => a - b));
+            }
+        }
+    };
+
+    for (let node = 0; node < nodeCount; node++) {
+        if (indexes[node] < 0) visit(node);
+    }
+    return cycles;
+}
+
+/**
+ * Build the dependency graph of the workspace from the resolved imports
+ */
+export function buildDependencyGraph(importGraph: ImportGraph): DependencyGraph {
+    const nodes: GraphNode[] = [];
+    const nodeIndexes = new Map<string, number>();
+    const addNode = (filePath: string): number => {
+        let index = nodeIndexes.get(filePath);
+        if (index === undefined) {
+            index = nodes.length;
+            nodeIndexes.set(filePath, index);
+            nodes.push({
+                id: `n${index}`,
+                filePath,
+                label: path.basename(filePath),
+                kind: getNodeKind(filePath),
+                orphan: false,
+                inCycle: false
+            });
+        }
+        return index;
+    };
+
+    importGraph.files.forEach(addNode);
+
+    const edges: GraphEdge[] = [];
+    for (const fileEdges of importGraph.edges.values()) {
+        for (const edge of fileEdges) {
+            const from = addNode(edge.from);
+            const to = addNode(edge.to);
+            // The same file imported twice is drawn once
+            if (!edges.some(existing => existing.from === from && existing.to === to && existing.type === edge.imp.type)) {
+                edges.push({ from, to, type: edge.imp.type, inCycle: false });
+            }
+        }
+    }
+
+    const cycles = findCycles(nodes.length, edges);
+    const cycleOf = new Map<number, number>();
+    cycles.forEach((cycle, cycleIndex) => cycle.forEach(node => cycleOf.set(node, cycleIndex)));
+    for (const edge of edges) {
+        const cycle = cycleOf.get(edge.from);
+        edge.inCycle = cycle !== undefined && cycle === cycleOf.get(edge.to);
+    }
+    cycleOf.forEach((_, node) => { nodes[node].inCycle = true; });
+
+    const imported = new Set(edges.filter(edge => edge.from !== edge.to).map(edge => edge.to));
+    nodes.forEach((node, index) => {
+        node.orphan = !imported.has(index) && isResourceFile(node.filePath);
+    });
+
+    return { nodes, edges, cycles };
+}
+
+/**
+ * Escape a label for a double quoted DOT string
+ */
+function quoteLabel(label: string): string {
+    return label.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Export the graph in Graphviz DOT format
+ */
+export function toDot(graph: DependencyGraph): string {
+    const lines = ['digraph imports {', '    rankdir=LR;', '    node [shape=box, style="rounded,filled", fontcolor=white];'];
+
+    for (const node of graph.nodes) {
+        const attributes = [
+            `label="${quoteLabel(node.label)}"`,
+            `tooltip="${quoteLabel(vscode.workspace.asRelativePath(node.filePath))}"`,
+            `fillcolor="${NODE_COLORS[node.kind]}"`
+        ];
+        if (node.inCycle) attributes.push(`color="${CYCLE_COLOR}"`, 'penwidth=2');
+        if (node.orphan) attributes.push('style="rounded,filled,dashed"');
+        lines.push(`    ${node.id} [${attributes.join(', ')}];`);
+    }
+    for (const edge of graph.edges) {
+        const attributes = [`label="${edge.type}"`];
+        if (edge.inCycle) attributes.push(`color="${CYCLE_COLOR}"`, `fontcolor="${CYCLE_COLOR}"`);
+        lines.push(`    ${graph.nodes[edge.from].id} -> ${graph.nodes[edge.to].id} [${attributes.join(', ')}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Export the graph as a Mermaid flowchart
+ */
+export function toMermaid(graph: DependencyGraph): string {
+    const lines = ['flowchart LR'];
+
+    for (const node of graph.nodes) {
+        lines.push(`    ${node.id}["${node.label.replace(/"/g, '#quot;')}"]:::${node.kind}`);
+    }
+    graph.edges.forEach(edge => {
+        lines.push(`    ${graph.nodes[edge.from].id} -->|${edge.type}| ${graph.nodes[edge.to].id}`);
+    });
+
+    for (const kind of Object.keys(NODE_COLORS) as NodeKind[]) {
+        lines.push(`    classDef ${kind} fill:${NODE_COLORS[kind]},color:#fff`);
+    }
+    graph.nodes.forEach(node => {
+        if (node.inCycle) lines.push(`    style ${node.id} stroke:${CYCLE_COLOR},stroke-width:3px`);
+        if (node.orphan) lines.push(`    style ${node.id} stroke-dasharray:5 5`);
+    });
+    graph.edges.forEach((edge, index) => {
+        if (edge.inCycle) lines.push(`    linkStyle ${index} stroke:${CYCLE_COLOR},color:${CYCLE_COLOR}`);
+    });
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Place nodes in columns: each file goes one column right of the files importing it.
+ * Edges inside a cycle are ignored so the layering terminates.
+ */
+function layoutGraph(graph: DependencyGraph): { x: number; y: number }[] {
+    const layers: number[] = new Array(graph.nodes.length).fill(0);
+    const layeredEdges = graph.edges.filter(edge => !edge.inCycle && edge.from !== edge.to);
+
+    for (let pass = 0; pass < graph.nodes.length; pass++) {
+        let changed = false;
+        for (const edge of layeredEdges) {
+            if (layers[edge.to] < layers[edge.from] + 1) {
+                layers[edge.to] = layers[edge.from] + 1;
+                changed = true;
+            }
+        }
+        if (!changed) break;
+    }
+
+    const rows = new Map<number, number>();
+    const order = graph.nodes
+        .map((node, index) => index)
+        .sort((a, b) => layers[a] - layers[b] || graph.nodes[a].label.localeCompare(graph.nodes[b].label));
+
+    const positions: { x: number; y: number }[] = new Array(graph.nodes.length);
+    for (const index of order) {
+        const row = rows.get(layers[index]) || 0;
+        rows.set(layers[index], row + 1);
+        positions[index] = {
+            x: MARGIN + layers[index] * (NODE_WIDTH + LAYER_GAP),
+            y: MARGIN + row * (NODE_HEIGHT + ROW_GAP)
+        };
+    }
+    return positions;
+}
+
+/**
+ * Escape text for HTML and SVG content
+ */
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the graph as SVG with clickable nodes
+ */
+function renderSvg(graph: DependencyGraph): string {
+    const positions = layoutGraph(graph);
+    const width = Math.max(...positions.map(position => position.x), 0) + NODE_WIDTH + MARGIN;
+    const height = Math.max(...positions.map(position => position.y), 0) + NODE_HEIGHT + MARGIN;
+
+    const edges = graph.edges.map(edge => {
+        const from = positions[edge.from];
+        const to = positions[edge.to];
+        const color = edge.inCycle ? CYCLE_COLOR : 'var(--vscode-foreground)';
+        const marker = edge.inCycle ? 'url(#arrow-cycle)' : 'url(#arrow)';
+
+        let pathData: string;
+        let labelX: number;
+        let labelY: number;
+        if (edge.from === edge.to) {
+            // Self import: loop above the node
+            const x = from.x + NODE_WIDTH / 2;
+            pathData = `M ${x - 20} ${from.y} C ${x - 30} ${from.y - 30}, ${x + 30} ${from.y - 30}, ${x + 20} ${from.y}`;
+            labelX = x;
+            labelY = from.y - 26;
+        } else {
+            const startX = from.x + NODE_WIDTH;
+            const startY = from.y + NODE_HEIGHT / 2;
+            const endX = to.x;
+            const endY = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(40, Math.abs(endX - startX) / 2);
+            pathData = `M ${startX} ${startY} C ${startX + bend} ${startY}, ${endX - bend} ${endY}, ${endX} ${endY}`;
+            labelX = (startX + endX) / 2;
+            labelY = (startY + endY) / 2 - 4;
+        }
+
+        return `<path d="${pathData}" fill="none" stroke="${color}" stroke-opacity="${edge.inCycle ? 1 : 0.6}" marker-end="${marker}"/>` +
+            `<text class="edge-label" x="${labelX}" y="${labelY}" fill="${color}">${edge.type}</text>`;
+    });
+
+    const nodes = graph.nodes.map((node, index) => {
+        const { x, y } = positions[index];
+        const classes = ['node', node.inCycle ? 'cycle' : '', node.orphan ? 'orphan' : ''].filter(Boolean).join(' ');
+        const label = node.label.length > 28 ? `${node.label.substring(0, 27)}…` : node.label;
+        return `<g class="${classes}" data-node="${index}">` +
+            `<title>${escapeHtml(vscode.workspace.asRelativePath(node.filePath))}</title>` +
+            `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="6" fill="${NODE_COLORS[node.kind]}"/>` +
+            `<text x="${x + NODE_WIDTH / 2}" y="${y + NODE_HEIGHT / 2 + 4}">${escapeHtml(label)}</text>` +
+            '</g>';
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+        '<defs>' +
+        '<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">' +
+        '<path d="M 0 0 L 10 5 L 0 10 z" fill="var(--vscode-foreground)"/></marker>' +
+        '<marker id="arrow-cycle" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">' +
+        `<path d="M 0 0 L 10 5 L 0 10 z" fill="${CYCLE_COLOR}"/></marker>` +
+        '</defs>' +
+        edges.join('') + nodes.join('') +
+        '</svg>';
+}
+
+/**
+ * Create the webview HTML: summary, legend, export buttons and the graph
+ */
+function getWebviewHtml(graph: DependencyGraph): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    const orphans = graph.nodes.filter(node => node.orphan);
+    const cycleList = graph.cycles
+        .map(cycle => `<li>${cycle.map(index => escapeHtml(graph.nodes[index].label)).join(' ↔ ')}</li>`)
+        .join('');
+    const legend = (Object.keys(NODE_COLORS) as NodeKind[])
+        .map(kind => `<span class="swatch" style="background:${NODE_COLORS[kind]}"></span>.${kind === 'python' ? 'py' : kind}`)
+        .join(' ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>Import Dependency Graph</title>
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+    .toolbar { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; margin-bottom: 8px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    .swatch { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-left: 8px; }
+    .problems { color: ${CYCLE_COLOR}; }
+    .node { cursor: pointer; }
+    .node text { fill: #fff; font-size: 12px; text-anchor: middle; pointer-events: none; }
+    .node:hover rect { filter: brightness(1.2); }
+    .node.cycle rect { stroke: ${CYCLE_COLOR}; stroke-width: 3; }
+    .node.orphan rect { stroke: var(--vscode-foreground); stroke-width: 2; stroke-dasharray: 5 4; opacity: 0.7; }
+    .edge-label { font-size: 10px; text-anchor: middle; }
+    .note { opacity: 0.7; font-size: 0.9em; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <strong>${graph.nodes.length} files, ${graph.edges.length} imports</strong>
+    <span>${legend}</span>
+    <button data-command="refresh">Refresh</button>
+    <button data-command="exportDot">Export DOT</button>
+    <button data-command="exportMermaid">Export Mermaid</button>
+</div>
+${graph.cycles.length > 0 ? `<div class="problems">Import cycles (${graph.cycles.length}):<ul>${cycleList}</ul></div>` : ''}
+${orphans.length > 0 ? `<div>Orphaned resource files (dashed, imported by nothing): ${orphans.map(node => escapeHtml(node.label)).join(', ')}</div>` : ''}
+<div class="note">Only resource files are checked for orphans; Python libraries and variable files appear when something imports them.</div>
+${renderSvg(graph)}
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-command]').forEach(button => {
+        button.addEventListener('click', () => vscode.postMessage({ command: button.dataset.command }));
+    });
+    document.querySelectorAll('.node').forEach(node => {
+        node.addEventListener('click', () => vscode.postMessage({ command: 'open', node: Number(node.dataset.node) }));
+    });
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * Build the workspace dependency graph with progress
+ */
+async function loadDependencyGraph(): Promise<DependencyGraph> {
+    return vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Building import dependency graph...' },
+        async () => buildDependencyGraph(await buildWorkspaceImportGraph())
+    );
+}
+
+/**
+ * Show the import dependency graph of the workspace in a webview panel
+ */
+export async function showDependencyGraph(): Promise<void> {
+    currentGraph = await loadDependencyGraph();
+
+    if (currentPanel) {
+        currentPanel.webview.html = getWebviewHtml(currentGraph);
+        currentPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'rfDependencyGraph',
+        'Import Dependency Graph',
+        vscode.ViewColumn.Active,
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    currentPanel = panel;
+    panel.webview.html = getWebviewHtml(currentGraph);
+
+    panel.webview.onDidReceiveMessage(async (message: { command: string; node?: number }) => {
+        if (!currentGraph) return;
+
+        try {
+            switch (message.command) {
+                case 'open': {
+                    const node = message.node !== undefined ? currentGraph.nodes[message.node] : undefined;
+                    if (node) {
+                        const document = await vscode.workspace.openTextDocument(node.filePath);
+                        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside, preview: true });
+                    }
+                    break;
+                }
+                case 'refresh':
+                    currentGraph = await loadDependencyGraph();
+                    panel.webview.html = getWebviewHtml(currentGraph);
+                    break;
+                case 'exportDot':
+                case 'exportMermaid': {
+                    const isDot = message.command === 'exportDot';
+                    const document = await vscode.workspace.openTextDocument({
+                        content: isDot ? toDot(currentGraph) : toMermaid(currentGraph),
+                        language: isDot ? 'dot' : 'mermaid'
+                    });
+                    await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside });
+                    break;
+                }
+            }
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to run dependency graph action: ${msg}`);
+        }
+    });
+    panel.onDidDispose(() => {
+        currentPanel = undefined;
+        currentGraph = undefined;
+    });
+}
@@ -15,8 +15,18 @@ import {
 } from './import-manager';
 import { registerCommands } from './commands';
 import { initializeFileViewTracker } from './file-view-tracker';
+import { registerImportDiagnostics } from './import-diagnostics';
+import { registerKeywordAutoImport } from './keyword-auto-import';
+import { registerRenameImportUpdates } from './rename-imports';
+import { registerOrganizeImportsOnSave } from './organize-imports';
+import { initializePendingSelections } from './pending-selections';
+import { registerImportPreview } from './import-preview';
+import { registerLibdocSpecWatchers } from './libdoc';
 
 export function activate(context: vscode.ExtensionContext) {
+    // Pending import selections are restored from the workspace state when the tree is loaded
+    initializePendingSelections(context);
+
     // Initialize the tree view - check if active file is a robot file
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor && isRobotFrameworkFile(activeEditor.document.uri.fsPath)) {
@@ -68,6 +78,24 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register all commands
     registerCommands(context);
+
+    // Report broken imports in .robot and .resource files
+    registerImportDiagnostics(context);
+
+    // Offer imports for keywords defined elsewhere in the workspace
+    registerKeywordAutoImport(context);
+
+    // Rewrite imports when files are renamed or moved
+    registerRenameImportUpdates(context);
+
+    // Sort and align imports on save when enabled
+    registerOrganizeImportsOnSave(context);
+
+    // Show the Settings section before and after confirming imports in a diff editor
+    registerImportPreview(context);
+
+    // Keep the Libdoc spec index up to date
+    registerLibdocSpecWatchers(context);
 }
 
 export function deactivate() {}
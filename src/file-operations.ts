@@ -1,8 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { PathType, SelectedItem } from './types';
+import { ExistingImport, ImportType, PathType, RobotDocument, SelectedItem } from './types';
 import { ALLOWED_FOLDERS } from './constants';
+import { getImportTypeForSetting } from './parsers';
+import { parseRobotDocument, tokenizeRobotLine, getSettingsSections, getStatementName, getPrimaryLanguage } from './robot-document';
+import { getDefaultLanguages } from './import-resolver';
 
 /**
  * Check if a file is a Robot Framework file
@@ -36,103 +39,207 @@ export function filterProjectFiles(files: vscode.Uri[], workspaceRoot: string):
  * Remove a specific import from the file content
  */
 export function removeImportFromContent(fileContent: string, importPath: string, importType: string): string {
-    const lines = fileContent.split('\n');
-    const result: string[] = [];
-
-    let inSettings = false;
+    const document = parseRobotDocument(fileContent, getDefaultLanguages());
+    const removedLines = new Set<number>();
+
+    for (const statement of document.settings) {
+        // Check if this statement is the import we want to remove
+        if (statement.tokens.length > 1 &&
+            getStatementName(statement) === importType.toLowerCase() &&
+            statement.tokens[1].value === importPath) {
+            // Remove the import together with its continuation lines
+            for (let line = statement.startLine; line <= statement.endLine; line++) {
+                removedLines.add(line);
+            }
+        }
+    }
 
-    for (const line of lines) {
-        const trimmedLine = line.trim();
+    const result = document.lines.filter((_, index) => !removedLines.has(index));
+    return document.bom + result.join(document.eol);
+}
 
-        // Check for Settings section
-        if (trimmedLine.match(/^\*\*\*\s*Settings\s*\*\*\*/i)) {
-            inSettings = true;
-            result.push(line);
-            continue;
+/**
+ * Remove import statements (with their continuation lines) parsed from the same file content
+ */
+export function removeImportStatements(fileContent: string, imports: ExistingImport[]): string {
+    const document = parseRobotDocument(fileContent, getDefaultLanguages());
+    const removedLines = new Set<number>();
+
+    for (const imp of imports) {
+        if (!imp.location) continue;
+        for (let line = imp.location.startLine; line <= imp.location.endLine; line++) {
+            removedLines.add(line);
         }
+    }
 
-        // Check for other sections (exit Settings)
-        if (trimmedLine.match(/^\*\*\*\s*(Test Cases|Keywords|Variables|Tasks|Comments)\s*\*\*\*/i)) {
-            inSettings = false;
-            result.push(line);
-            continue;
-        }
+    const result = document.lines.filter((_, index) => !removedLines.has(index));
+    return document.bom + result.join(document.eol);
+}
 
-        if (inSettings && trimmedLine) {
-            // Check if this line is the import we want to remove
-            const isLibraryImport = importType === 'Library' && trimmedLine.match(/^Library\s+/i);
-            const isResourceImport = importType === 'Resource' && trimmedLine.match(/^Resource\s+/i);
-            const isVariablesImport = importType === 'Variables' && trimmedLine.match(/^Variables\s+/i);
+/**
+ * Replace the paths of import statements parsed from the same file content
+ */
+export function replaceImportPaths(fileContent: string, changes: { imp: ExistingImport; newPath: string }[]): string {
+    const document = parseRobotDocument(fileContent, getDefaultLanguages());
+    const lines = [...document.lines];
+
+    // Replace from the end of each line so earlier columns stay valid
+    const sorted = changes
+        .filter(change => change.imp.location?.pathToken)
+        .sort((a, b) => b.imp.location!.pathToken.line - a.imp.location!.pathToken.line ||
+            b.imp.location!.pathToken.column - a.imp.location!.pathToken.column);
+    for (const { imp, newPath } of sorted) {
+        const token = imp.location!.pathToken;
+        const line = lines[token.line];
+        lines[token.line] = line.substring(0, token.column) + newPath + line.substring(token.column + token.value.length);
+    }
 
-            if ((isLibraryImport || isResourceImport || isVariablesImport) &&
-                trimmedLine.includes(importPath)) {
-                // Skip this line (remove the import)
-                continue;
-            }
-        }
+    return document.bom + lines.join(document.eol);
+}
 
-        result.push(line);
+/**
+ * Check that a new Settings section can be added to a file without one. A header the parser
+ * does not recognize may be a Settings header in an unknown language; adding a section
+ * would then leave the file with two.
+ */
+function assertSettingsSectionMissing(document: RobotDocument): void {
+    const unknown = document.sections.find(section => section.type === 'invalid' && section.headerLine >= 0);
+    if (unknown) {
+        throw new Error(`unrecognized section header '${unknown.header.trim()}', not adding a second Settings section`);
     }
-
-    return result.join('\n');
 }
 
 /**
- * Update the Settings section in a Robot Framework file
+ * Update the import lines of the Settings section in a Robot Framework file.
+ * Only Library/Resource/Variables statements (and their `...` continuation lines)
+ * are replaced; every other setting, comment and blank line is kept in place.
+ * New imports are written where the existing import block starts.
+ * Throws when the file has no Settings section but has unrecognized section headers.
  */
 export function updateSettingsSection(fileContent: string, newSettingsSection: string): string {
-    const lines = fileContent.split('\n');
-    const result: string[] = [];
+    const document = parseRobotDocument(fileContent, getDefaultLanguages());
+    const { lines, eol, bom } = document;
+
+    // Only the import statements of the generated section are needed,
+    // written with the setting names of the file's language
+    const language = getPrimaryLanguage(document);
+    const newImportLines: string[] = [];
+    newSettingsSection.split(/\r?\n/).forEach((line, index) => {
+        const row = tokenizeRobotLine(line, index);
+        if (row.tokens.length === 0) return;
+
+        const importType = getImportTypeForSetting(row.tokens[0].value);
+        if (importType) {
+            const localizedName = language.settings[importType.toLowerCase() as 'library' | 'resource' | 'variables'];
+            newImportLines.push(localizedName + line.trim().substring(row.tokens[0].value.length));
+        }
+    });
+
+    const settingsSection = getSettingsSections(document)[0];
 
-    let inSettings = false;
-    let settingsAdded = false;
-    let foundSettings = false;
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const trimmedLine = line.trim();
-
-        // Check for Settings section
-        if (trimmedLine.match(/^\*\*\*\s*Settings\s*\*\*\*/i)) {
-            inSettings = true;
-            foundSettings = true;
-            // Add new settings section
-            result.push(newSettingsSection.trimEnd());
-            settingsAdded = true;
-            continue;
+    // If no Settings section was found, add it at the beginning
+    if (!settingsSection) {
+        if (newImportLines.length === 0) {
+            return fileContent;
         }
+        assertSettingsSectionMissing(document);
+        const settings = [`*** ${language.headers.settings} ***`, ...newImportLines].join(eol);
+        return bom + settings + eol + eol + lines.join(eol);
+    }
 
-        // Check for other sections (exit Settings)
-        if (trimmedLine.match(/^\*\*\*\s*(Test Cases|Keywords|Variables|Tasks|Comments)\s*\*\*\*/i)) {
-            if (inSettings) {
-                inSettings = false;
-                // Add blank line before next section if needed
-                if (result.length > 0 && result[result.length - 1] !== '') {
-                    result.push('');
-                }
-            }
-            result.push(line);
-            continue;
+    // Mark existing import statements (including continuation lines) for removal
+    const removedLines = new Set<number>();
+    let insertAt = -1;
+
+    for (const statement of document.settings) {
+        if (getImportTypeForSetting(getStatementName(statement)) === null) continue;
+
+        if (insertAt < 0 || statement.startLine < insertAt) {
+            insertAt = statement.startLine;
+        }
+        for (let line = statement.startLine; line <= statement.endLine; line++) {
+            removedLines.add(line);
         }
+    }
+
+    // Without an existing import block, append after the last setting in the section
+    if (insertAt < 0) {
+        const lastStatement = settingsSection.statements[settingsSection.statements.length - 1];
+        insertAt = (lastStatement ? lastStatement.endLine : settingsSection.headerLine) + 1;
+    }
 
-        // Skip lines in Settings section (they're being replaced)
-        if (inSettings) {
-            continue;
+    const result: string[] = [];
+    for (let i = 0; i <= lines.length; i++) {
+        if (i === insertAt) {
+            result.push(...newImportLines);
+        }
+        if (i < lines.length && !removedLines.has(i)) {
+            result.push(lines[i]);
         }
+    }
+
+    return bom + result.join(eol);
+}
 
-        result.push(line);
+/**
+ * Get where a single new import statement goes: after the last import of the Settings section,
+ * else after its last setting, else in a new Settings section at the top of the file.
+ * Throws when the file has no Settings section but has unrecognized section headers.
+ * The statement is written with the setting name of the file's language.
+ */
+export function getImportInsertion(
+    fileContent: string,
+    importType: ImportType,
+    importPath: string,
+    args: string[] = [],
+    alias?: string,
+    aliasMarker?: string
+): { line: number; character: number; text: string } {
+    const document = parseRobotDocument(fileContent, getDefaultLanguages());
+    const { lines, eol } = document;
+    const language = getPrimaryLanguage(document);
+    const settingName = language.settings[importType.toLowerCase() as 'library' | 'resource' | 'variables'];
+    const statement = formatImportStatement(settingName, importPath, args, alias, aliasMarker);
+
+    const settingsSection = getSettingsSections(document)[0];
+    if (!settingsSection) {
+        assertSettingsSectionMissing(document);
+        return { line: 0, character: 0, text: `*** ${language.headers.settings} ***${eol}${statement}${eol}${eol}` };
     }
 
-    // If no Settings section was found, add it at the beginning
-    if (!foundSettings) {
-        return newSettingsSection + '\n\n' + fileContent;
+    const imports = settingsSection.statements.filter(item => getImportTypeForSetting(getStatementName(item)) !== null);
+    const lastStatement = imports[imports.length - 1] || settingsSection.statements[settingsSection.statements.length - 1];
+    const insertAt = (lastStatement ? lastStatement.endLine : settingsSection.headerLine) + 1;
+
+    // Appending after the last line of a file without a trailing newline
+    if (insertAt >= lines.length) {
+        return { line: lines.length - 1, character: lines[lines.length - 1].length, text: eol + statement };
     }
+    return { line: insertAt, character: 0, text: statement + eol };
+}
 
-    return result.join('\n');
+/**
+ * Add a single import statement to file content at the position given by getImportInsertion
+ */
+export function addImportStatement(
+    fileContent: string,
+    importType: ImportType,
+    importPath: string,
+    args: string[] = [],
+    alias?: string,
+    aliasMarker?: string
+): string {
+    const { line, character, text } = getImportInsertion(fileContent, importType, importPath, args, alias, aliasMarker);
+    const bom = fileContent.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const lines = fileContent.substring(bom.length).split(/(?<=\n)/);
+
+    // Offset of the insertion position (lines keep their line endings)
+    const offset = bom.length + lines.slice(0, line).join('').length + character;
+    return fileContent.substring(0, offset) + text + fileContent.substring(offset);
 }
 
 /**
- * Prompt user to select path type (relative or absolute)
+ * Prompt user to select path type (relative, absolute or module name)
  */
 export async function selectPathType(): Promise<PathType | undefined> {
     const options: vscode.QuickPickItem[] = [
@@ -145,6 +252,11 @@ export async function selectPathType(): Promise<PathType | undefined> {
             label: '$(home) Workspace Path',
             description: 'folder/file.py',
             detail: 'Path from workspace root'
+        },
+        {
+            label: '$(symbol-namespace) Module Name',
+            description: 'folder.file',
+            detail: 'Python libraries as module names from the pythonpath roots, other files as relative paths'
         }
     ];
 
@@ -157,9 +269,29 @@ export async function selectPathType(): Promise<PathType | undefined> {
         return undefined;
     }
 
+    if (selected.label.includes('Module')) {
+        return 'module';
+    }
     return selected.label.includes('Relative') ? 'relative' : 'absolute';
 }
 
+/**
+ * Format a single import statement including its arguments and alias
+ */
+export function formatImportStatement(
+    importType: string,
+    importPath: string,
+    args: string[] = [],
+    alias?: string,
+    aliasMarker?: string
+): string {
+    const cells = [importType, importPath, ...args];
+    if (alias) {
+        cells.push(aliasMarker || 'AS', alias);
+    }
+    return cells.join('    ');
+}
+
 /**
  * Generate Settings section content based on selected imports
  */
@@ -169,38 +301,115 @@ export function generateSettingsSection(selectedImports: SelectedItem[], pathTyp
     const variables: string[] = [];
 
     for (const item of selectedImports) {
-        if (!item.isFile) continue;
+        if (!item.isFile || !item.importType) continue;
 
-        const filePath = pathType === 'relative' ? item.relativePath : item.absolutePath;
+        const filePath = item.importName || (pathType === 'absolute' ? item.absolutePath : item.relativePath);
+        const statement = formatImportStatement(item.importType, filePath, item.args, item.alias, item.aliasMarker);
 
         switch (item.importType) {
             case 'Library':
-                libraries.push(filePath);
+                libraries.push(statement);
                 break;
             case 'Resource':
-                resources.push(filePath);
+                resources.push(statement);
                 break;
             case 'Variables':
-                variables.push(filePath);
+                variables.push(statement);
                 break;
         }
     }
 
     let settings = '*** Settings ***\n';
 
-    for (const lib of libraries) {
-        settings += `Library    ${lib}\n`;
+    for (const statement of [...libraries, ...resources, ...variables]) {
+        settings += `${statement}\n`;
     }
 
-    for (const res of resources) {
-        settings += `Resource    ${res}\n`;
+    return settings;
+}
+
+/**
+ * Get the text of a file, preferring an open editor buffer (including unsaved changes) over the file on disk
+ */
+export function readFileContent(filePath: string): string {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+    return document ? document.getText() : fs.readFileSync(filePath, 'utf8');
+}
+
+/**
+ * Get the smallest range of a document that has to be replaced to get the new content,
+ * so cursors, folding and undo steps outside the change are kept
+ */
+export function getChangedRange(document: vscode.TextDocument, newContent: string): { range: vscode.Range; text: string } | undefined {
+    const oldContent = document.getText();
+    if (oldContent === newContent) return undefined;
+
+    const maxLength = Math.min(oldContent.length, newContent.length);
+    let start = 0;
+    while (start < maxLength && oldContent[start] === newContent[start]) start++;
+    let end = 0;
+    while (end < maxLength - start &&
+        oldContent[oldContent.length - 1 - end] === newContent[newContent.length - 1 - end]) end++;
+
+    // Never split a CRLF line ending
+    if (start > 0 && oldContent[start - 1] === '\r' && oldContent[start] === '\n') start--;
+    const endOffset = oldContent.length - end;
+    if (end > 0 && oldContent[endOffset - 1] === '\r' && oldContent[endOffset] === '\n') end--;
+
+    return {
+        range: new vscode.Range(document.positionAt(start), document.positionAt(oldContent.length - end)),
+        text: newContent.substring(start, newContent.length - end)
+    };
+}
+
+/**
+ * Replace the content of files through a single WorkspaceEdit, so the change can be undone and
+ * unsaved changes in open editors are kept. Documents without unsaved changes before the edit
+ * are saved afterwards (running format-on-save and other save participants).
+ */
+export async function applyContentChanges(changes: { filePath: string; content: string }[]): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    const documentsToSave: vscode.TextDocument[] = [];
+
+    for (const change of changes) {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === change.filePath) ||
+            await vscode.workspace.openTextDocument(vscode.Uri.file(change.filePath));
+
+        // Editor buffers do not contain the byte order mark
+        const content = document.getText().startsWith('\uFEFF') ? change.content : change.content.replace(/^\uFEFF/, '');
+        const changedRange = getChangedRange(document, content);
+        if (!changedRange) continue;
+
+        edit.replace(document.uri, changedRange.range, changedRange.text);
+        if (!document.isDirty && !document.isUntitled) {
+            documentsToSave.push(document);
+        }
     }
 
-    for (const vars of variables) {
-        settings += `Variables    ${vars}\n`;
+    if (edit.size === 0) return;
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error('The edit could not be applied.');
+    }
+    for (const document of documentsToSave) {
+        await document.save();
     }
+}
 
-    return settings;
+/**
+ * Create (or overwrite) a file with content through a WorkspaceEdit, so the creation can be undone
+ */
+export async function createFileWithContent(filePath: string, content: string): Promise<vscode.TextDocument> {
+    const uri = vscode.Uri.file(filePath);
+    const edit = new vscode.WorkspaceEdit();
+    edit.createFile(uri, { overwrite: true });
+    edit.insert(uri, new vscode.Position(0, 0), content);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error('The file could not be created.');
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    await document.save();
+    return document;
 }
 
 /**
@@ -208,8 +417,7 @@ export function generateSettingsSection(selectedImports: SelectedItem[], pathTyp
  */
 export async function writeFile(filePath: string, content: string, fileType: string, fileName: string) {
     try {
-        fs.writeFileSync(filePath, content, 'utf8');
-        const document = await vscode.workspace.openTextDocument(filePath);
+        const document = await createFileWithContent(filePath, content);
         await vscode.window.showTextDocument(document);
         vscode.window.showInformationMessage(`Created ${fileType} file: ${fileName}`);
     } catch (error) {
@@ -0,0 +1,352 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExistingImport, ImportType } from './types';
+import { parseExistingImports } from './parsers';
+import { isRobotFrameworkFile } from './file-operations';
+import { EXCLUDED_FOLDERS } from './constants';
+import { parseRobotDocument, getPrimaryLanguage } from './robot-document';
+import { resolveImport, expandImportVariables, isModuleName, getDefaultLanguages } from './import-resolver';
+import { findUnusedImports } from './unused-imports';
+
+// Diagnostic source shown in the Problems panel
+export const DIAGNOSTIC_SOURCE = 'RF Imports';
+
+// Diagnostic codes used to pick quick fixes
+export const DIAGNOSTIC_CODES = {
+    unresolved: 'unresolvedImport',
+    duplicate: 'duplicateImport',
+    self: 'selfImport',
+    wrongType: 'wrongImportType',
+    circular: 'circularImport',
+    unused: 'unusedImport'
+};
+
+// File extensions each import type accepts
+const IMPORT_EXTENSIONS: { [type in ImportType]: string[] } = {
+    Library: ['.py', '.java', '.class'],
+    Resource: ['.resource', '.robot', '.txt', '.tsv', '.rst', '.rest', '.json'],
+    Variables: ['.py', '.yaml', '.yml', '.json']
+};
+
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+
+/**
+ * Get the range of the import path cell
+ */
+export function getImportPathRange(imp: ExistingImport): vscode.Range {
+    const token = imp.location!.pathToken;
+    return new vscode.Range(token.line, token.column, token.line, token.column + token.value.length);
+}
+
+/**
+ * Get the range covering the whole import statement including continuation lines
+ */
+export function getImportStatementRange(imp: ExistingImport, document: vscode.TextDocument): vscode.Range {
+    const { startLine, endLine } = imp.location!;
+    return endLine + 1 < document.lineCount
+        ? new vscode.Range(startLine, 0, endLine + 1, 0)
+        : new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+}
+
+/**
+ * Get the import types that can load a file with the given import path, or null if the extension is unknown
+ */
+export function getAllowedImportTypes(importPath: string): ImportType[] | null {
+    const extension = path.extname(importPath).toLowerCase();
+    const types = (Object.keys(IMPORT_EXTENSIONS) as ImportType[]).filter(type => IMPORT_EXTENSIONS[type].includes(extension));
+    return types.length > 0 ? types : null;
+}
+
+/**
+ * Check if an import is written as a Python module name (installed libraries cannot be verified)
+ */
+function isModuleImport(imp: ExistingImport, expandedPath: string): boolean {
+    return imp.type !== 'Resource' && isModuleName(expandedPath) && getAllowedImportTypes(expandedPath) === null;
+}
+
+/**
+ * Read the imports of a file from disk
+ */
+function readFileImports(filePath: string): { imports: ExistingImport[]; content: string } {
+    try {
+        const content = fs.readFileSync(filePath, 'utf8');
+        return { imports: parseExistingImports(content), content };
+    } catch {
+        return { imports: [], content: '' };
+    }
+}
+
+/**
+ * Get the files a file imports as Resource, reading and parsing each file once per diagnostics pass
+ */
+function getResourceImports(filePath: string, resourceImports: Map<string, string[]>): string[] {
+    let resolvedFiles = resourceImports.get(filePath);
+    if (!resolvedFiles) {
+        const { imports, content } = readFileImports(filePath);
+        resolvedFiles = imports
+            .filter(imp => imp.type === 'Resource')
+            .map(imp => resolveImport(imp, filePath, content))
+            .filter((resolved): resolved is string => !!resolved);
+        resourceImports.set(filePath, resolvedFiles);
+    }
+    return resolvedFiles;
+}
+
+/**
+ * Find a chain of Resource imports leading from `startFile` back to `targetFile`
+ */
+function findResourceCycle(
+    startFile: string,
+    targetFile: string,
+    resourceImports: Map<string, string[]>,
+    visited = new Set<string>()
+): string[] | null {
+    if (visited.has(startFile)) return null;
+    visited.add(startFile);
+
+    for (const resolved of getResourceImports(startFile, resourceImports)) {
+        if (path.normalize(resolved) === path.normalize(targetFile)) {
+            return [startFile, targetFile];
+        }
+        const chain = findResourceCycle(resolved, targetFile, resourceImports, visited);
+        if (chain) return [startFile, ...chain];
+    }
+    return null;
+}
+
+/**
+ * Analyze the imports of a Robot Framework document
+ */
+export function analyzeImportDiagnostics(document: vscode.TextDocument): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const filePath = document.uri.fsPath;
+    const content = document.getText();
+    const imports = parseExistingImports(content);
+    const seen = new Map<string, ExistingImport>();
+    const resourceImports = new Map<string, string[]>(); // Shared by the cycle checks of all imports
+
+    const addDiagnostic = (imp: ExistingImport, message: string, code: string, severity: vscode.DiagnosticSeverity) => {
+        const diagnostic = new vscode.Diagnostic(getImportPathRange(imp), message, severity);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = code;
+        diagnostics.push(diagnostic);
+    };
+
+    for (const imp of imports) {
+        if (!imp.location?.pathToken) continue;
+
+        const expandedPath = expandImportVariables(imp.path, filePath, content);
+        const resolved = resolveImport(imp, filePath, content);
+
+        // Wrong import type for the file extension
+        const allowedTypes = getAllowedImportTypes(expandedPath);
+        if (allowedTypes && !allowedTypes.includes(imp.type)) {
+            addDiagnostic(
+                imp,
+                `'${path.extname(expandedPath)}' files cannot be imported as ${imp.type}. Use ${allowedTypes.join(' or ')}.`,
+                DIAGNOSTIC_CODES.wrongType,
+                vscode.DiagnosticSeverity.Error
+            );
+        }
+
+        if (!resolved) {
+            // Module names may be installed packages and unknown variables may be given on the command line
+            if (!isModuleImport(imp, expandedPath) && !/[$%]\{/.test(expandedPath)) {
+                addDiagnostic(imp, `Cannot resolve ${imp.type} import '${imp.path}'.`, DIAGNOSTIC_CODES.unresolved, vscode.DiagnosticSeverity.Error);
+            }
+        } else if (path.normalize(resolved) === path.normalize(filePath)) {
+            addDiagnostic(imp, 'File imports itself.', DIAGNOSTIC_CODES.self, vscode.DiagnosticSeverity.Error);
+            continue;
+        }
+
+        // Duplicates: the same target imported twice with the same alias
+        const key = `${imp.type}|${resolved ? path.normalize(resolved) : imp.path}|${imp.alias || ''}`;
+        const previous = seen.get(key);
+        if (previous) {
+            addDiagnostic(
+                imp,
+                `Duplicate import of '${imp.path}' (already imported on line ${previous.location!.startLine + 1}).`,
+                DIAGNOSTIC_CODES.duplicate,
+                vscode.DiagnosticSeverity.Warning
+            );
+        } else {
+            seen.set(key, imp);
+        }
+
+        // Circular resource imports
+        if (imp.type === 'Resource' && resolved && !previous) {
+            const chain = findResourceCycle(resolved, filePath, resourceImports);
+            if (chain) {
+                addDiagnostic(
+                    imp,
+                    `Circular resource import: ${[filePath, ...chain].map(file => path.basename(file)).join(' → ')}`,
+                    DIAGNOSTIC_CODES.circular,
+                    vscode.DiagnosticSeverity.Warning
+                );
+            }
+        }
+    }
+
+    // Imports whose keywords and variables are never used are shown faded
+    for (const imp of findUnusedImports(content, filePath)) {
+        const { startLine, endLine, settingToken } = imp.location!;
+        const range = new vscode.Range(startLine, settingToken.column, endLine, document.lineAt(endLine).text.length);
+        const diagnostic = new vscode.Diagnostic(range, `${imp.type} '${imp.path}' is not used.`, vscode.DiagnosticSeverity.Hint);
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        diagnostic.code = DIAGNOSTIC_CODES.unused;
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Update the import diagnostics of a document
+ */
+export function updateImportDiagnostics(document: vscode.TextDocument): void {
+    if (!diagnosticCollection || document.uri.scheme !== 'file' || !isRobotFrameworkFile(document.uri.fsPath)) {
+        return;
+    }
+    diagnosticCollection.set(document.uri, analyzeImportDiagnostics(document));
+}
+
+/**
+ * Find the import a diagnostic was reported for
+ */
+function findDiagnosticImport(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): ExistingImport | undefined {
+    return parseExistingImports(document.getText()).find(imp =>
+        imp.location?.pathToken && imp.location.startLine === diagnostic.range.start.line
+    );
+}
+
+/**
+ * Build a path to a candidate file in the same style as the original import
+ */
+function createReplacementPath(originalPath: string, candidate: string, documentPath: string): string {
+    const relative = path.relative(path.dirname(documentPath), candidate).replace(/\\/g, '/');
+    return /^\$\{CURDIR\}/i.test(originalPath) ? `\${CURDIR}/${relative}` : relative;
+}
+
+/**
+ * Quick fixes for import diagnostics: fix the path, change the import type or remove the import
+ */
+export class ImportCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    async provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): Promise<vscode.CodeAction[]> {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+            const imp = findDiagnosticImport(document, diagnostic);
+            if (!imp) continue;
+
+            if (diagnostic.code === DIAGNOSTIC_CODES.unresolved) {
+                actions.push(...await this.createFixPathActions(document, diagnostic, imp));
+            }
+            if (diagnostic.code === DIAGNOSTIC_CODES.wrongType) {
+                actions.push(...this.createChangeTypeActions(document, diagnostic, imp));
+            }
+            actions.push(this.createRemoveAction(document, diagnostic, imp));
+        }
+
+        return actions;
+    }
+
+    /**
+     * Offer workspace files with the same name as the unresolved import
+     */
+    private async createFixPathActions(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        imp: ExistingImport
+    ): Promise<vscode.CodeAction[]> {
+        const fileName = path.basename(imp.path.replace(/\\/g, '/'));
+        if (!fileName || /[$%]\{/.test(fileName)) return [];
+
+        // Search by extension and compare names, as file names may contain glob characters
+        const extension = path.extname(fileName);
+        if (!/^\.\w+$/.test(extension)) return [];
+
+        const found = await vscode.workspace.findFiles(`**/*${extension}`, EXCLUDED_FOLDERS);
+        const candidates = found
+            .filter(candidate => path.basename(candidate.fsPath) === fileName && candidate.fsPath !== document.uri.fsPath)
+            .slice(0, 20);
+        return candidates
+            .map((candidate, index) => {
+                const newPath = createReplacementPath(imp.path, candidate.fsPath, document.uri.fsPath);
+                const action = new vscode.CodeAction(`Change path to '${newPath}'`, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, getImportPathRange(imp), newPath);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = candidates.length === 1 && index === 0;
+                return action;
+            });
+    }
+
+    /**
+     * Offer the import types that accept the file extension, written in the file's language
+     */
+    private createChangeTypeActions(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        imp: ExistingImport
+    ): vscode.CodeAction[] {
+        const allowedTypes = getAllowedImportTypes(expandImportVariables(imp.path, document.uri.fsPath, document.getText())) || [];
+        const language = getPrimaryLanguage(parseRobotDocument(document.getText(), getDefaultLanguages()));
+        const token = imp.location!.settingToken;
+        const range = new vscode.Range(token.line, token.column, token.line, token.column + token.value.length);
+
+        return allowedTypes.map((type, index) => {
+            const action = new vscode.CodeAction(`Change to ${type} import`, vscode.CodeActionKind.QuickFix);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, range, language.settings[type.toLowerCase() as 'library' | 'resource' | 'variables']);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = index === 0;
+            return action;
+        });
+    }
+
+    /**
+     * Remove the import statement including continuation lines
+     */
+    private createRemoveAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, imp: ExistingImport): vscode.CodeAction {
+        const action = new vscode.CodeAction(`Remove ${imp.type} import '${imp.path}'`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.delete(document.uri, getImportStatementRange(imp, document));
+        action.diagnostics = [diagnostic];
+        action.isPreferred = diagnostic.code === DIAGNOSTIC_CODES.unused;
+        return action;
+    }
+}
+
+/**
+ * Register the import diagnostics and their quick fixes
+ */
+export function registerImportDiagnostics(context: vscode.ExtensionContext): void {
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('rfImports');
+
+    const selector: vscode.DocumentSelector = [
+        { scheme: 'file', pattern: '**/*.robot' },
+        { scheme: 'file', pattern: '**/*.resource' }
+    ];
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        vscode.workspace.onDidOpenTextDocument(updateImportDiagnostics),
+        vscode.workspace.onDidSaveTextDocument(updateImportDiagnostics),
+        vscode.workspace.onDidCloseTextDocument(document => diagnosticCollection?.delete(document.uri)),
+        vscode.languages.registerCodeActionsProvider(selector, new ImportCodeActionProvider(), {
+            providedCodeActionKinds: ImportCodeActionProvider.providedCodeActionKinds
+        })
+    );
+
+    // Check documents that were already open before activation
+    vscode.workspace.textDocuments.forEach(updateImportDiagnostics);
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExistingImport } from './types';
+import { parseExistingImports } from './parsers';
+import { resolveImport } from './import-resolver';
+import { EXCLUDED_FOLDERS } from './constants';
+
+// Import of a workspace file resolved to the file it points at
+export interface ImportEdge {
+    from: string;
+    to: string;
+    imp: ExistingImport;
+}
+
+// Resolved imports of every .robot and .resource file in the workspace
+export interface ImportGraph {
+    files: string[];
+    edges: Map<string, ImportEdge[]>; // Outgoing edges by importing file
+}
+
+// File depending on another file, directly or through resource imports
+export interface ImportedByEntry {
+    filePath: string;
+    depth: number; // 1 = imports the file directly
+    via?: string; // Importer the dependency goes through (transitive entries only)
+}
+
+/**
+ * Resolve the imports of a single file, skipping imports that do not resolve
+ */
+export function getFileImportEdges(filePath: string): ImportEdge[] {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return [];
+    }
+
+    const edges: ImportEdge[] = [];
+    for (const imp of parseExistingImports(content)) {
+        const resolved = resolveImport(imp, filePath, content);
+        if (resolved) {
+            edges.push({ from: filePath, to: path.normalize(resolved), imp });
+        }
+    }
+    return edges;
+}
+
+/**
+ * Build the import graph of all .robot and .resource files in the workspace
+ */
+export async function buildWorkspaceImportGraph(): Promise<ImportGraph> {
+    const uris = await vscode.workspace.findFiles('**/*.{robot,resource}', EXCLUDED_FOLDERS);
+    const files = uris.map(uri => path.normalize(uri.fsPath)).sort();
+
+    const edges = new Map<string, ImportEdge[]>();
+    for (const file of files) {
+        edges.set(file, getFileImportEdges(file));
+    }
+    return { files, edges };
+}
+
+/**
+ * Find the files importing a file. Transitive lookup follows resource imports upwards
+ * (a suite importing a resource that imports the file depends on it too).
+ */
+export function findImporters(graph: ImportGraph, filePath: string, transitive: boolean): ImportedByEntry[] {
+    const target = path.normalize(filePath);
+
+    // Reverse edges: imported file -> importing files
+    const importersOf = new Map<string, string[]>();
+    for (const fileEdges of graph.edges.values()) {
+        for (const edge of fileEdges) {
+            const importers = importersOf.get(edge.to) || [];
+            if (!importers.includes(edge.from)) importers.push(edge.from);
+            importersOf.set(edge.to, importers);
+        }
+    }
+
+    const entries: ImportedByEntry[] = [];
+    const visited = new Set<string>([target]);
+    let queue = [target];
+
+    for (let depth = 1; queue.length > 0 && (transitive || depth === 1); depth++) {
+        const next: string[] = [];
+        for (const current of queue) {
+            for (const importer of importersOf.get(current) || []) {
+                if (visited.has(importer)) continue;
+                visited.add(importer);
+                entries.push({ filePath: importer, depth, via: depth > 1 ? current : undefined });
+                next.push(importer);
+            }
+        }
+        queue = next;
+    }
+
+    return entries.sort((a, b) => a.depth - b.depth || a.filePath.localeCompare(b.filePath));
+}
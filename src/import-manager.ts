@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { PathType, SelectedItem, SelectionResult } from './types';
+import { ExistingImport, PathType, SelectedItem, SelectionResult } from './types';
 import { ImportTreeItem } from './tree/items';
 import { ImportTreeDataProvider, WelcomeTreeDataProvider, setHasPendingChanges } from './tree/providers';
 import { parseExistingImports, analyzeFileContentForSuggestions } from './parsers';
@@ -11,7 +11,9 @@ import {
     selectPathType,
     generateSettingsSection,
     updateSettingsSection,
-    writeFile
+    writeFile,
+    readFileContent,
+    applyContentChanges
 } from './file-operations';
 import {
     lockTargetFile,
@@ -21,17 +23,66 @@ import {
     setOriginalTargetFile
 } from './target-manager';
 import { updateTreeViewIndicators, isFileCurrentlyViewed } from './file-view-tracker';
+import { getModuleNameForFile } from './import-resolver';
+import { getPythonLibraryClassNames } from './python-parser';
+import {
+    ImportProfile,
+    ProfileImport,
+    loadImportProfiles,
+    pickImportProfiles,
+    mergeProfileImports,
+    getProfileImportStates
+} from './import-profiles';
+import { getPendingSelection, savePendingSelection, clearPendingSelection } from './pending-selections';
+import { planBulkAdd } from './bulk-imports';
+import { getImportsHash, mergeImportSelections } from './import-merge';
+import { EXCLUDED_FOLDERS } from './constants';
 
 // Global references
 let currentTreeView: vscode.TreeView<ImportTreeItem> | undefined;
 let currentTreeProvider: ImportTreeDataProvider | undefined;
-let importSelectionResolver: ((confirmed: boolean) => void) | undefined;
+let importSelectionResolver: ImportSelectionResolver | undefined;
 let welcomeTreeView: vscode.TreeView<vscode.TreeItem> | undefined;
 let treeViewDisposables: vscode.Disposable[] = [];
 
 // Store pathType globally for generating settings
 let currentPathType: PathType = 'relative';
 
+// Selection with its path type and module names already applied (e.g. by the diff preview).
+// When editing a file, before and after are the previewed content, written as is on confirm.
+export interface PreparedSelection {
+    pathType: PathType;
+    items: SelectedItem[];
+    before?: string;
+    after?: string;
+}
+
+// Called by the confirm and cancel buttons and the diff preview
+export type ImportSelectionResolver = (confirmed: boolean, prepared?: PreparedSelection) => void | Promise<void>;
+
+// What confirming the tree selection changes: the imports of an existing file, a new file,
+// or imports added to several files. pathType is undefined when it is asked on confirm.
+// loadedContent is the content of the edited file when the tree was loaded.
+let currentConfirmTarget: {
+    mode: 'edit' | 'new' | 'bulk';
+    files: string[];
+    pathType?: PathType;
+    mainSection?: string;
+    loadedContent?: string;
+} | undefined;
+
+// Preview confirmed in a tree opened by showFileSelectionTreeView, for its caller
+let confirmedPreview: PreparedSelection | undefined;
+
+// Before and after content of the file changed by confirming the selection
+export interface ImportPreview {
+    targetFile: string;
+    before: string;
+    after: string;
+    prepared: PreparedSelection;
+    note?: string;
+}
+
 /**
  * Get the current tree view
  */
@@ -58,17 +109,50 @@ export function refreshCurrentTreeIndicators(): void {
 /**
  * Get the import selection resolver
  */
-export function getImportSelectionResolver(): ((confirmed: boolean) => void) | undefined {
+export function getImportSelectionResolver(): ImportSelectionResolver | undefined {
     return importSelectionResolver;
 }
 
+/**
+ * Confirm or cancel the current import selection, reporting errors of the resolver
+ */
+export async function resolveImportSelection(confirmed: boolean, prepared?: PreparedSelection): Promise<void> {
+    if (!importSelectionResolver) return;
+    try {
+        await importSelectionResolver(confirmed, prepared);
+    } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to apply the import selection: ${msg}`);
+    }
+}
+
 /**
  * Set the import selection resolver
  */
-export function setImportSelectionResolver(resolver: ((confirmed: boolean) => void) | undefined): void {
+export function setImportSelectionResolver(resolver: ImportSelectionResolver | undefined): void {
     importSelectionResolver = resolver;
 }
 
+/**
+ * Select the imports of profiles in the current tree and show them in the Import Profile section.
+ * Returns the imports whose file is not in the tree.
+ */
+export function applyImportProfilesToTree(profiles: ImportProfile[]): ProfileImport[] {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!currentTreeProvider || !workspaceFolders || profiles.length === 0) return [];
+
+    const imports = mergeProfileImports(profiles);
+    const notFound = currentTreeProvider.applyProfileImports(imports);
+
+    const targetFile = currentTreeProvider.getTargetFile();
+    const content = fs.existsSync(targetFile) ? readFileContent(targetFile) : '';
+    const states = getProfileImportStates(imports, targetFile, content, workspaceFolders[0].uri.fsPath)
+        .map(entry => entry.state === 'missing' && !notFound.includes(entry.imp) ? { ...entry, state: 'selected' as const } : entry);
+    currentTreeProvider.setProfileStates(profiles.map(profile => profile.name), states);
+
+    return notFound;
+}
+
 /**
  * Initialize the tree view with welcome content
  */
@@ -131,10 +215,10 @@ export async function loadImportsForFile(filePath: string): Promise<void> {
     // Dispose the welcome tree view if it exists
     disposeWelcomeTreeView();
 
-    // Read file content and parse existing imports
+    // Read file content (including unsaved editor changes) and parse existing imports
     let fileContent: string;
     try {
-        fileContent = fs.readFileSync(filePath, 'utf8');
+        fileContent = readFileContent(filePath);
     } catch {
         initializeTreeView();
         return;
@@ -143,8 +227,8 @@ export async function loadImportsForFile(filePath: string): Promise<void> {
     const existingImports = parseExistingImports(fileContent);
 
     // Find importable files
-    const allPyFiles = await vscode.workspace.findFiles('**/*.py', '{**/node_modules/**,**/venv/**,**/.venv/**,**/__pycache__/**}');
-    const allResourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', '{**/node_modules/**,**/venv/**,**/.venv/**}');
+    const allPyFiles = await vscode.workspace.findFiles('**/*.py', EXCLUDED_FOLDERS);
+    const allResourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', EXCLUDED_FOLDERS);
 
     // Filter to allowed project folders
     const pyFiles = filterProjectFiles(allPyFiles, workspaceRoot);
@@ -209,38 +293,53 @@ export async function loadImportsForFile(filePath: string): Promise<void> {
     // Store for cleanup
     treeViewDisposables.push(visibilityDisposable);
 
+    // Restore changes that were not confirmed before switching files or reloading the window
+    const treeProvider = currentTreeProvider;
+    const pendingSelection = await getPendingSelection(filePath, fileContent);
+    if (pendingSelection) {
+        const restoredCount = treeProvider.restorePendingSelection(pendingSelection);
+        if (restoredCount > 0) {
+            currentTreeView.message = `Restored ${restoredCount} pending change(s). Confirm to write them or cancel to discard them.`;
+        }
+    }
+
+    // Persist pending changes per target file - STORE DISPOSABLE
+    const selectionDisposable = treeProvider.onDidChangeSelection(() => {
+        savePendingSelection(filePath, fileContent, treeProvider.getPendingSelection()).catch(error => {
+            const msg = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to save pending import selection: ${msg}`);
+        });
+    });
+    treeViewDisposables.push(selectionDisposable);
+
+    currentConfirmTarget = { mode: 'edit', files: [filePath], loadedContent: fileContent };
+
     // Set up resolver for confirm/cancel buttons
-    importSelectionResolver = async (confirmed: boolean) => {
+    importSelectionResolver = async (confirmed: boolean, prepared?: PreparedSelection) => {
         if (confirmed) {
-            const selected = currentTreeProvider?.getSelectedItems() || [];
-
-            // Ask for path type
-            const selectedPathType = await selectPathType();
+            // Ask for path type unless the diff preview already did
+            const selectedPathType = prepared ? prepared.pathType : await selectPathType();
             if (selectedPathType === undefined) {
                 return; // User cancelled
             }
 
-            // Convert to SelectedItem format
-            const result: SelectedItem[] = selected.map(item => ({
-                isFile: true,
-                filePath: item.filePath,
-                relativePath: item.relativePath,
-                absolutePath: item.absolutePath,
-                importType: item.selectedImportType || undefined
-            }));
-
-            // Generate new settings section
-            const newSettingsSection = generateSettingsSection(result, selectedPathType);
+            const result = prepared ? prepared.items : getTreeSelection();
+            if (!prepared && selectedPathType === 'module' && !(await applyModuleImportNames(result))) {
+                return; // User cancelled
+            }
 
-            // Update file content
-            const currentContent = fs.readFileSync(filePath, 'utf8');
-            const updatedContent = updateSettingsSection(currentContent, newSettingsSection);
+            // Merge with imports changed in the file since the tree was loaded
+            const updatedContent = await getEditedContent(filePath, fileContent, result, selectedPathType, prepared);
+            if (updatedContent === undefined) {
+                return; // User cancelled
+            }
 
-            // Write back to file
+            // Write back to file through the editor buffer so the change can be undone
             try {
-                fs.writeFileSync(filePath, updatedContent, 'utf8');
+                await applyContentChanges([{ filePath, content: updatedContent }]);
+                await clearPendingSelection(filePath);
 
-                // Refresh the document if it's open
+                // Show the updated document
                 const document = await vscode.workspace.openTextDocument(filePath);
                 await vscode.window.showTextDocument(document);
 
@@ -266,63 +365,216 @@ export async function loadImportsForFile(filePath: string): Promise<void> {
                 vscode.window.showErrorMessage(`Failed to update file: ${errorMessage}`);
             }
         } else {
-            // User canceled - reset pending changes flag
+            // User canceled - reset pending changes flag and forget the stored changes
             setHasPendingChanges(false);
+            await clearPendingSelection(filePath);
+            if (currentTreeView) {
+                currentTreeView.message = undefined;
+            }
         }
         // Don't cleanup - keep the tree view open for further editing
     };
 }
 
 /**
- * Generate preview content for selected imports
+ * Check whether the imports of the target file changed since the tree was loaded (edited by hand,
+ * pulled from git) and let the user merge the tree selection with them or overwrite them.
+ * Returns the imports to write, or undefined when the user cancels.
  */
-export function generatePreviewContent(selectedItems: ImportTreeItem[]): string {
-    const libraries: string[] = [];
-    const resources: string[] = [];
-    const variables: string[] = [];
-
-    for (const item of selectedItems) {
-        if (!item.isFile) continue;
-
-        const filePath = item.relativePath || item.absolutePath || item.filePath;
-
-        switch (item.selectedImportType) {
-            case 'Library':
-                libraries.push(filePath);
-                break;
-            case 'Resource':
-                resources.push(filePath);
-                break;
-            case 'Variables':
-                variables.push(filePath);
-                break;
-        }
+async function resolveImportDrift(
+    filePath: string,
+    loadedContent: string,
+    currentContent: string,
+    selection: SelectedItem[]
+): Promise<SelectedItem[] | undefined> {
+    if (getImportsHash(currentContent) === getImportsHash(loadedContent)) return selection;
+
+    const merge = mergeImportSelections(filePath, loadedContent, currentContent, selection);
+    const detail = [
+        'Merge keeps the changes made in the file and in the tree.',
+        'Overwrite replaces the imports with the tree selection.',
+        ...(merge.conflicts.length > 0 ? ['', 'Conflicts (the tree selection is used):', ...merge.conflicts] : [])
+    ].join('\n');
+
+    const choice = await vscode.window.showWarningMessage(
+        `The imports of ${path.basename(filePath)} changed since the import tree was loaded.`,
+        { modal: true, detail },
+        'Merge',
+        'Overwrite'
+    );
+    if (choice === 'Merge') return merge.items;
+    if (choice === 'Overwrite') return selection;
+    return undefined;
+}
+
+/**
+ * Get the new content of an edited file: the previewed content when the file did not change
+ * since the preview, else the selection merged with the imports of the file now.
+ * Returns undefined when the user cancels or the preview is out of date.
+ */
+async function getEditedContent(
+    filePath: string,
+    loadedContent: string,
+    selection: SelectedItem[],
+    pathType: PathType,
+    prepared?: PreparedSelection
+): Promise<string | undefined> {
+    const currentContent = readFileContent(filePath);
+    if (prepared?.after !== undefined) {
+        if (prepared.before === currentContent) return prepared.after;
+        vscode.window.showWarningMessage(`${path.basename(filePath)} changed since the preview. Preview the import changes again.`);
+        return undefined;
     }
 
-    let preview = '*** Settings ***\n';
+    const importsToWrite = await resolveImportDrift(filePath, loadedContent, currentContent, selection);
+    if (!importsToWrite) return undefined;
+    return updateSettingsSection(currentContent, generateSettingsSection(importsToWrite, pathType));
+}
 
-    if (libraries.length > 0) {
-        preview += '\n# Libraries:\n';
-        for (const lib of libraries) {
-            preview += `Library    ${lib}\n`;
-        }
+/**
+ * Get the selection of the current tree, including imports that have no file in the tree
+ * (installed libraries, unresolved paths) so they are kept
+ */
+function getTreeSelection(): SelectedItem[] {
+    const selected = currentTreeProvider?.getSelectedItems() || [];
+    const result: SelectedItem[] = selected.map(item => ({
+        isFile: true,
+        filePath: item.filePath,
+        relativePath: item.relativePath,
+        absolutePath: item.absolutePath,
+        importType: item.selectedImportType || undefined,
+        args: item.importArgs,
+        alias: item.importAlias || undefined,
+        aliasMarker: item.importAliasMarker || undefined,
+        importName: item.importName || undefined
+    }));
+
+    const unmatchedImports = currentTreeProvider?.getUnmatchedExistingImports() || [];
+    result.push(...unmatchedImports.map(toSelectedItem));
+    return result;
+}
+
+/**
+ * Work out what confirming the current tree selection changes, for the diff preview.
+ * Asks for the path type when confirming would ask for it.
+ */
+export async function prepareImportPreview(): Promise<ImportPreview | undefined> {
+    if (!currentTreeProvider || !importSelectionResolver || !currentConfirmTarget) return undefined;
+    const { mode, files, mainSection, loadedContent } = currentConfirmTarget;
+
+    const pathType = currentConfirmTarget.pathType ?? await selectPathType();
+    if (pathType === undefined) return undefined;
+
+    const items = getTreeSelection();
+    if (pathType === 'module' && !(await applyModuleImportNames(items))) return undefined;
+    const prepared: PreparedSelection = { pathType, items };
+    const targetFile = files[0];
+
+    if (mode === 'new') {
+        const settingsSection = generateSettingsSection(items, pathType);
+        return { targetFile, before: '', after: `${settingsSection}\n\n${mainSection || ''}\n`, prepared, note: 'new file' };
     }
 
-    if (resources.length > 0) {
-        preview += '\n# Resources:\n';
-        for (const res of resources) {
-            preview += `Resource    ${res}\n`;
-        }
+    const before = readFileContent(targetFile);
+    if (mode === 'bulk') {
+        const after = planBulkAdd(targetFile, before, items.filter(item => item.importType), pathType).content;
+        return { targetFile, before, after, prepared, note: files.length > 1 ? `first of ${files.length} files` : undefined };
     }
 
-    if (variables.length > 0) {
-        preview += '\n# Variables:\n';
-        for (const vars of variables) {
-            preview += `Variables    ${vars}\n`;
+    // Merge with imports changed since the tree was loaded, so the preview shows what is written
+    const importsToWrite = loadedContent !== undefined ? await resolveImportDrift(targetFile, loadedContent, before, items) : items;
+    if (!importsToWrite) return undefined;
+    const after = updateSettingsSection(before, generateSettingsSection(importsToWrite, pathType));
+    return { targetFile, before, after, prepared: { ...prepared, before, after } };
+}
+
+/**
+ * Convert an existing import to the SelectedItem format, keeping its path as written
+ */
+function toSelectedItem(imp: ExistingImport): SelectedItem {
+    return {
+        isFile: true,
+        filePath: imp.path,
+        relativePath: imp.path,
+        absolutePath: imp.path,
+        importType: imp.type,
+        args: imp.args,
+        alias: imp.alias,
+        aliasMarker: imp.aliasMarker
+    };
+}
+
+/**
+ * Use module names for Python Library imports when the module path style is selected.
+ * Files that cannot be imported as modules are reported and keep a relative path.
+ * Returns false if the user cancels.
+ */
+async function applyModuleImportNames(items: SelectedItem[]): Promise<boolean> {
+    const warnings: string[] = [];
+
+    for (const item of items) {
+        // Only Python files from the tree, existing module imports keep their name
+        if (item.importType !== 'Library' || item.importName) continue;
+        if (!path.isAbsolute(item.filePath) || path.extname(item.filePath).toLowerCase() !== '.py') continue;
+
+        const fileName = path.basename(item.filePath);
+        const info = getModuleNameForFile(item.filePath);
+        if (!info) {
+            warnings.push(`${fileName}: not inside a pythonpath root, a relative path is used`);
+            continue;
+        }
+        if (!info.importable) {
+            warnings.push(`${fileName}: ${info.problems.join('; ')}, a relative path is used`);
+            continue;
+        }
+        if (info.problems.length > 0) {
+            warnings.push(`${fileName}: ${info.problems.join('; ')}`);
+        }
+
+        // Let the user pick the class when the module has several library classes
+        let moduleName = info.moduleName;
+        let content = '';
+        try {
+            content = fs.readFileSync(item.filePath, 'utf8');
+        } catch {
+            // Unreadable files are imported as modules
+        }
+        const lastPart = moduleName.split('.').pop() || '';
+        const allClassNames = getPythonLibraryClassNames(content);
+        const classNames = allClassNames.filter(name => name !== lastPart);
+        const hasModuleClass = classNames.length !== allClassNames.length;
+
+        if (classNames.length > 1 || (classNames.length === 1 && hasModuleClass)) {
+            const picked = await vscode.window.showQuickPick(
+                [
+                    {
+                        label: moduleName,
+                        description: hasModuleClass ? `Class ${lastPart}` : 'Module level keywords'
+                    },
+                    ...classNames.map(name => ({ label: `${moduleName}.${name}`, description: `Class ${name}` }))
+                ],
+                {
+                    title: `Select Library in ${fileName}`,
+                    placeHolder: 'The module contains several library classes'
+                }
+            );
+            if (!picked) return false;
+            moduleName = picked.label;
         }
+
+        item.importName = moduleName;
+    }
+
+    if (warnings.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+            'Some Python files may not be importable as modules',
+            { modal: true, detail: warnings.join('\n') },
+            'Continue'
+        );
+        if (choice !== 'Continue') return false;
     }
 
-    return preview;
+    return true;
 }
 
 /**
@@ -335,8 +587,9 @@ export async function showFileSelectionTreeView(
     workspaceRoot: string,
     pathType: PathType,
     targetFile: string,  // Added target file path
-    existingImports: { type: 'Library' | 'Resource' | 'Variables'; path: string }[] = [],
-    suggestedFiles: vscode.Uri[] = []
+    existingImports: ExistingImport[] = [],
+    suggestedFiles: vscode.Uri[] = [],
+    profiles: ImportProfile[] = [] // Profiles whose imports start selected
 ): Promise<SelectionResult> {
     currentPathType = pathType;
 
@@ -367,6 +620,8 @@ export async function showFileSelectionTreeView(
         // Update the target manager's tree view reference
         setTreeViewRef(currentTreeView);
 
+        applyImportProfilesToTree(profiles);
+
         // Handle checkbox changes (toggle selection) - STORE DISPOSABLE FOR CLEANUP
         const checkboxDisposable = currentTreeView.onDidChangeCheckboxState(e => {
             for (const [item, state] of e.items) {
@@ -406,18 +661,10 @@ export async function showFileSelectionTreeView(
         };
 
         // Set up resolver for confirm/cancel buttons
-        importSelectionResolver = (confirmed: boolean) => {
+        importSelectionResolver = (confirmed: boolean, prepared?: PreparedSelection) => {
             if (confirmed) {
-                const selected = currentTreeProvider?.getSelectedItems() || [];
-
-                // Convert to SelectedItem format
-                const result = selected.map(item => ({
-                    isFile: true,
-                    filePath: item.filePath,
-                    relativePath: item.relativePath,
-                    absolutePath: item.absolutePath,
-                    importType: item.selectedImportType || undefined
-                }));
+                const result = prepared ? prepared.items : getTreeSelection();
+                confirmedPreview = prepared;
 
                 // Hide the tree view
                 cleanupTreeView();
@@ -433,6 +680,58 @@ export async function showFileSelectionTreeView(
     });
 }
 
+/**
+ * Let the user pick files and import types in the import tree to add to several files at once.
+ * The tree starts without selections and shows paths relative to the first target file.
+ */
+export async function selectImportsForFiles(targetFiles: string[]): Promise<{ items: SelectedItem[]; pathType: PathType } | null> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0 || targetFiles.length === 0) {
+        return null;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    const selectedPathType = await selectPathType();
+    if (selectedPathType === undefined) {
+        return null;
+    }
+
+    const allImportableFiles = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Scanning importable files...'
+    }, async () => {
+        const pyFiles = await vscode.workspace.findFiles('**/*.py', EXCLUDED_FOLDERS);
+        const resourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', EXCLUDED_FOLDERS);
+        const otherFiles = await vscode.workspace.findFiles('**/*.{txt,csv,json,yaml,yml}', EXCLUDED_FOLDERS);
+        return filterProjectFiles([...pyFiles, ...resourceFiles, ...otherFiles], workspaceRoot);
+    });
+    if (allImportableFiles.length === 0) {
+        vscode.window.showWarningMessage('No importable files found in project folders (Libraries, Tests, Utilities, Resources, POM).');
+        return null;
+    }
+
+    currentConfirmTarget = { mode: 'bulk', files: targetFiles, pathType: selectedPathType };
+    const selectionResult = await showFileSelectionTreeView(
+        allImportableFiles,
+        [],
+        path.dirname(targetFiles[0]),
+        workspaceRoot,
+        selectedPathType,
+        targetFiles[0],
+        [],
+        []
+    );
+    if (selectionResult === null) {
+        return null;
+    }
+
+    const items = selectionResult.filter(item => item.importType);
+    if (selectedPathType === 'module' && !(await applyModuleImportNames(items))) {
+        return null;
+    }
+    return { items, pathType: selectedPathType };
+}
+
 /**
  * Edit imports in an existing Robot Framework file
  */
@@ -453,10 +752,10 @@ export async function editRobotFileImports(uri: vscode.Uri): Promise<void> {
         title: "Scanning importable files...",
         cancellable: false
     }, async (progress) => {
-        // Read the file content
+        // Read the file content (including unsaved editor changes)
         let fileContent: string;
         try {
-            fileContent = fs.readFileSync(filePath, 'utf8');
+            fileContent = readFileContent(filePath);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to read file: ${filePath}`);
             return;
@@ -468,16 +767,16 @@ export async function editRobotFileImports(uri: vscode.Uri): Promise<void> {
         progress.report({ increment: 20, message: "Finding Python files..." });
 
         // Find importable files (filtered to project folders)
-        const allPyFiles = await vscode.workspace.findFiles('**/*.py', '{**/node_modules/**,**/venv/**,**/.venv/**,**/__pycache__/**}');
+        const allPyFiles = await vscode.workspace.findFiles('**/*.py', EXCLUDED_FOLDERS);
 
         progress.report({ increment: 20, message: "Finding Resource files..." });
 
-        const allResourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', '{**/node_modules/**,**/venv/**,**/.venv/**}');
+        const allResourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', EXCLUDED_FOLDERS);
 
         progress.report({ increment: 10, message: "Finding additional importable files..." });
 
         // Optionally, include more file types that might be importable
-        const allOtherFiles = await vscode.workspace.findFiles('**/*.{txt,csv,json,yaml,yml}', '{**/node_modules/**,**/venv/**,**/.venv/**}');
+        const allOtherFiles = await vscode.workspace.findFiles('**/*.{txt,csv,json,yaml,yml}', EXCLUDED_FOLDERS);
 
         // Filter to allowed project folders
         const pyFiles = filterProjectFiles(allPyFiles, workspaceRoot);
@@ -506,6 +805,8 @@ export async function editRobotFileImports(uri: vscode.Uri): Promise<void> {
         const allImportableFiles = [...pyFiles, ...resourceFiles, ...otherFiles];
 
         // Show file selection with pre-selected existing imports and suggested files highlighted
+        currentConfirmTarget = { mode: 'edit', files: [filePath], pathType: selectedPathType, loadedContent: fileContent };
+        confirmedPreview = undefined;
         const selectionResult = await showFileSelectionTreeView(
             allImportableFiles,
             [], // Second parameter not used in unified view, but kept for function signature compatibility
@@ -522,17 +823,22 @@ export async function editRobotFileImports(uri: vscode.Uri): Promise<void> {
             return; // User canceled, don't update the file
         }
 
-        // Generate new settings section
-        const newSettingsSection = generateSettingsSection(selectionResult, selectedPathType);
+        if (selectedPathType === 'module' && !(await applyModuleImportNames(selectionResult))) {
+            return; // User canceled
+        }
 
-        // Update file content
-        const updatedContent = updateSettingsSection(fileContent, newSettingsSection);
+        // Merge with imports changed in the file while the selection was open
+        const updatedContent = await getEditedContent(filePath, fileContent, selectionResult, selectedPathType, confirmedPreview);
+        confirmedPreview = undefined;
+        if (updatedContent === undefined) {
+            return; // User canceled
+        }
 
-        // Write back to file
+        // Write back to file through the editor buffer, using its content at confirm time
         try {
-            fs.writeFileSync(filePath, updatedContent, 'utf8');
+            await applyContentChanges([{ filePath, content: updatedContent }]);
 
-            // Refresh the document if it's open
+            // Show the updated document
             const document = await vscode.workspace.openTextDocument(filePath);
             await vscode.window.showTextDocument(document);
 
@@ -594,16 +900,16 @@ export async function createRobotFileWithImports(
         cancellable: false
     }, async (progress) => {
         // Find importable files (filtered to project folders)
-        const allPyFiles = await vscode.workspace.findFiles('**/*.py', '{**/node_modules/**,**/venv/**,**/.venv/**,**/__pycache__/**}');
+        const allPyFiles = await vscode.workspace.findFiles('**/*.py', EXCLUDED_FOLDERS);
 
         progress.report({ increment: 40, message: "Finding Resource files..." });
 
-        const allResourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', '{**/node_modules/**,**/venv/**,**/.venv/**}');
+        const allResourceFiles = await vscode.workspace.findFiles('**/*.{resource,robot}', EXCLUDED_FOLDERS);
 
         progress.report({ increment: 10, message: "Finding additional importable files..." });
 
         // Optionally, include more file types that might be importable
-        const allOtherFiles = await vscode.workspace.findFiles('**/*.{txt,csv,json,yaml,yml}', '{**/node_modules/**,**/venv/**,**/.venv/**}');
+        const allOtherFiles = await vscode.workspace.findFiles('**/*.{txt,csv,json,yaml,yml}', EXCLUDED_FOLDERS);
 
         // Filter to allowed project folders
         const pyFiles = filterProjectFiles(allPyFiles, workspaceRoot);
@@ -626,17 +932,36 @@ export async function createRobotFileWithImports(
             }
             selectedPathType = pathTypeResult;
 
+            // Offer saved import profiles to start the selection with
+            let profiles: ImportProfile[] = [];
+            try {
+                profiles = loadImportProfiles();
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showWarningMessage(msg);
+            }
+            const selectedProfiles = profiles.length > 0
+                ? await pickImportProfiles(profiles, 'Apply import profiles to the new file (press Escape to skip)') || []
+                : [];
+
             progress.report({ increment: 20, message: "Preparing import selection..." });
 
             // Show file selection (passing empty array for suggested files since we don't have content to analyze yet)
             // Use the pre-combined files that include all types
-            const selectionResult = await showFileSelectionTreeView(combinedFiles, [], targetDir, workspaceRoot, selectedPathType, filePath, [], []);
+            currentConfirmTarget = { mode: 'new', files: [filePath], pathType: selectedPathType, mainSection };
+            const selectionResult = await showFileSelectionTreeView(
+                combinedFiles, [], targetDir, workspaceRoot, selectedPathType, filePath, [], [], selectedProfiles
+            );
 
             // If user canceled, exit early (no file will be created)
             if (selectionResult === null) {
                 return; // User canceled
             }
 
+            if (selectedPathType === 'module' && !(await applyModuleImportNames(selectionResult))) {
+                return; // User canceled
+            }
+
             selectedImports = selectionResult;
         }
 
@@ -0,0 +1,137 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ExistingImport, SelectedItem } from './types';
+import { parseExistingImports } from './parsers';
+import { resolveImport } from './import-resolver';
+
+// Imports to write after merging, with the conflicts that were resolved in favor of the tree
+export interface ImportMergeResult {
+    items: SelectedItem[];
+    conflicts: string[];
+}
+
+// The same import in the loaded file, the current file and the tree selection
+interface MergeEntry {
+    base?: ExistingImport;
+    theirs?: ExistingImport;
+    ours?: SelectedItem;
+}
+
+/**
+ * Get a hash of the imports in a file, used to notice that they changed since the tree was loaded
+ */
+export function getImportsHash(fileContent: string): string {
+    const imports = parseExistingImports(fileContent).map(imp => [imp.type, imp.path, imp.args || [], imp.alias || '']);
+    return crypto.createHash('sha1').update(JSON.stringify(imports)).digest('hex');
+}
+
+/**
+ * Get the key identifying what an import points at: the resolved file, or type and path as written
+ */
+function getMergeKey(imp: { type: string; path: string }, filePath: string, content: string): string {
+    const target = resolveImport(imp, filePath, content);
+    return target ? path.normalize(target) : `${imp.type}:${imp.path.trim()}`;
+}
+
+/**
+ * Get the part of an import both sides can change: type, arguments and alias
+ */
+function getDetails(imp: { type?: string; importType?: string; args?: string[]; alias?: string }): string {
+    return JSON.stringify([imp.type || imp.importType, imp.args || [], imp.alias || '']);
+}
+
+/**
+ * Convert an import from the file to a selected item that is written as is
+ */
+function fromFile(imp: ExistingImport): SelectedItem {
+    return {
+        isFile: true,
+        filePath: imp.path,
+        relativePath: imp.path,
+        absolutePath: imp.path,
+        importType: imp.type,
+        args: imp.args,
+        alias: imp.alias,
+        aliasMarker: imp.aliasMarker
+    };
+}
+
+/**
+ * Three-way merge of imports: the imports when the tree was loaded (base), the imports in the file
+ * now (theirs) and the tree selection (ours). Changes made on only one side are kept; when both
+ * sides changed the same import differently, the tree selection wins and a conflict is reported.
+ */
+export function mergeImportSelections(
+    filePath: string,
+    baseContent: string,
+    currentContent: string,
+    selection: SelectedItem[]
+): ImportMergeResult {
+    const entries = new Map<string, MergeEntry>();
+    const getEntry = (key: string) => {
+        const entry = entries.get(key) || {};
+        entries.set(key, entry);
+        return entry;
+    };
+
+    // Current imports first, so the merged section follows the order of the file
+    for (const imp of parseExistingImports(currentContent)) {
+        getEntry(getMergeKey(imp, filePath, currentContent)).theirs ??= imp;
+    }
+    for (const imp of parseExistingImports(baseContent)) {
+        getEntry(getMergeKey(imp, filePath, baseContent)).base ??= imp;
+    }
+    for (const item of selection) {
+        if (!item.importType) continue;
+        const key = path.isAbsolute(item.filePath)
+            ? path.normalize(item.filePath)
+            : getMergeKey({ type: item.importType, path: item.filePath }, filePath, currentContent);
+        getEntry(key).ours ??= item;
+    }
+
+    const items: SelectedItem[] = [];
+    const conflicts: string[] = [];
+    for (const { base, theirs, ours } of entries.values()) {
+        const label = (theirs || base)?.path || ours?.importName || ours?.relativePath || ours?.filePath || '';
+
+        if (!base) {
+            // Added in the file, in the tree, or in both
+            if (ours && theirs && getDetails(ours) !== getDetails(theirs)) {
+                conflicts.push(`${label}: added in the file and in the tree with different settings`);
+            }
+            items.push(ours || fromFile(theirs!));
+            continue;
+        }
+
+        const oursChanged = !ours || getDetails(ours) !== getDetails(base);
+        const theirsChanged = !theirs || getDetails(theirs) !== getDetails(base);
+
+        if (!ours && !theirs) continue;
+        if (!theirs) {
+            // Removed in the file
+            if (oursChanged) {
+                conflicts.push(`${label}: removed in the file but changed in the tree`);
+                items.push(ours!);
+            }
+            continue;
+        }
+        if (!ours) {
+            // Removed in the tree
+            if (theirsChanged) {
+                conflicts.push(`${label}: removed in the tree but changed in the file`);
+            }
+            continue;
+        }
+
+        if (!oursChanged) {
+            items.push(fromFile(theirs));
+        } else {
+            if (theirsChanged && getDetails(ours) !== getDetails(theirs)) {
+                conflicts.push(`${label}: changed in the file and in the tree`);
+            }
+            items.push(ours);
+        }
+    }
+
+    return { items, conflicts };
+}
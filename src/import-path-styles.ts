@@ -0,0 +1,115 @@
+import * as path from 'path';
+import { ExistingImport } from './types';
+import { parseExistingImports } from './parsers';
+import { getPythonPathRoots, getWorkspaceRootFor, isModuleName, resolveImport, expandImportVariables } from './import-resolver';
+
+// Path styles imports can be written in; `separators` only replaces backslashes
+export type ImportPathStyle = 'relative' | 'workspace' | 'curdir' | 'separators';
+
+// Import whose path changes
+export interface PathConversion {
+    imp: ExistingImport;
+    newPath: string;
+}
+
+// Changes and skipped imports of one file
+export interface ConversionPlan {
+    filePath: string;
+    changes: PathConversion[];
+    skipped: { imp: ExistingImport; reason: string }[];
+}
+
+/**
+ * Format the path of a file as imported from another file:
+ * `relative` (../Resources/x.resource), `workspace` (Resources/x.resource, needs the workspace
+ * root in the pythonpath) or `curdir` (${CURDIR}/../Resources/x.resource)
+ */
+export function formatImportPath(targetFile: string, importingFile: string, style: Exclude<ImportPathStyle, 'separators'>): string | undefined {
+    const fromFile = path.relative(path.dirname(importingFile), targetFile).split(path.sep).join('/');
+
+    switch (style) {
+        case 'relative':
+            return fromFile;
+        case 'curdir':
+            return `\${CURDIR}/${fromFile}`;
+        case 'workspace': {
+            const workspaceRoot = getWorkspaceRootFor(importingFile);
+            if (!workspaceRoot || !getPythonPathRoots(importingFile).includes(path.normalize(workspaceRoot))) return undefined;
+            return path.relative(workspaceRoot, targetFile).split(path.sep).join('/');
+        }
+    }
+}
+
+/**
+ * Work out how the imports of a file change when converted to a path style.
+ * Module names and standard libraries are left alone; paths with other variables, unresolved
+ * imports and paths that would resolve to a different file are skipped with a reason.
+ */
+export function planImportPathConversion(filePath: string, content: string, style: ImportPathStyle): ConversionPlan {
+    const plan: ConversionPlan = { filePath, changes: [], skipped: [] };
+
+    for (const imp of parseExistingImports(content)) {
+        if (!imp.location?.pathToken) continue;
+        const original = imp.path.trim();
+        if (imp.type === 'Library' && isModuleName(expandImportVariables(original, filePath, content))) continue;
+
+        if (style === 'separators') {
+            const newPath = original.replace(/\\/g, '/');
+            if (newPath !== original) plan.changes.push({ imp, newPath });
+            continue;
+        }
+
+        if (/^[$%]\{/.test(original) && !/^\$\{CURDIR\}/i.test(original)) {
+            plan.skipped.push({ imp, reason: 'starts with a variable' });
+            continue;
+        }
+        const target = resolveImport(imp, filePath, content);
+        if (!target) {
+            plan.skipped.push({ imp, reason: 'does not resolve to a file' });
+            continue;
+        }
+
+        const newPath = formatImportPath(target, filePath, style);
+        if (newPath === undefined) {
+            plan.skipped.push({ imp, reason: 'the workspace root is not in rfFilesCreator.pythonpath' });
+            continue;
+        }
+        if (newPath === original) continue;
+
+        // Relative lookup comes first, so a workspace path may hit another file next to the importing file
+        if (resolveImport({ type: imp.type, path: newPath }, filePath, content) !== target) {
+            plan.skipped.push({ imp, reason: `'${newPath}' would resolve to a different file` });
+            continue;
+        }
+        plan.changes.push({ imp, newPath });
+    }
+
+    return plan;
+}
+
+/**
+ * Create a Markdown report of the planned changes (dry run)
+ */
+export function formatConversionReport(plans: ConversionPlan[], style: ImportPathStyle, relativePath: (filePath: string) => string): string {
+    const changeCount = plans.reduce((count, plan) => count + plan.changes.length, 0);
+    const lines = [
+        `# Import path conversion: ${style}`,
+        '',
+        `${changeCount} import(s) in ${plans.filter(plan => plan.changes.length > 0).length} file(s) would change.`,
+        ''
+    ];
+
+    for (const plan of plans) {
+        if (plan.changes.length === 0 && plan.skipped.length === 0) continue;
+        lines.push(`## ${relativePath(plan.filePath)}`, '');
+        for (const change of plan.changes) {
+            lines.push(`- Line ${change.imp.location!.startLine + 1}: \`${change.imp.path}\` → \`${change.newPath}\``);
+        }
+        for (const skipped of plan.skipped) {
+            lines.push(`- Line ${skipped.imp.location!.startLine + 1}: \`${skipped.imp.path}\` skipped (${skipped.reason})`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
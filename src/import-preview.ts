@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PreparedSelection, prepareImportPreview, getImportSelectionResolver, resolveImportSelection } from './import-manager';
+
+// Scheme of the read-only before/after documents shown in the diff
+const PREVIEW_SCHEME = 'rf-import-preview';
+
+// Content of the preview documents by URI
+const previewContents = new Map<string, string>();
+
+// Selection shown in the open preview, applied as previewed
+let activePreview: PreparedSelection | undefined;
+
+/**
+ * Provides the content of the before/after preview documents
+ */
+class ImportPreviewContentProvider implements vscode.TextDocumentContentProvider {
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return previewContents.get(uri.toString()) ?? '';
+    }
+}
+
+/**
+ * Close the diff editors showing an import preview
+ */
+async function closePreviewEditors(): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === PREVIEW_SCHEME);
+    if (tabs.length > 0) {
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
+
+/**
+ * Show the target file before and after confirming the current import selection
+ */
+export async function showImportPreview(): Promise<void> {
+    if (!getImportSelectionResolver()) {
+        vscode.window.showInformationMessage('No import selection to preview.');
+        return;
+    }
+
+    const preview = await prepareImportPreview();
+    if (!preview) return;
+
+    await closePreviewEditors();
+    previewContents.clear();
+
+    // Keep the file name so the preview gets Robot Framework highlighting
+    const fileName = path.basename(preview.targetFile);
+    const id = Date.now().toString();
+    const beforeUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${id}/before/${fileName}` });
+    const afterUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `/${id}/after/${fileName}` });
+    previewContents.set(beforeUri.toString(), preview.before);
+    previewContents.set(afterUri.toString(), preview.after);
+    activePreview = preview.prepared;
+
+    const title = `${fileName}: Current ↔ After Confirm${preview.note ? ` (${preview.note})` : ''}`;
+    await vscode.commands.executeCommand('vscode.diff', beforeUri, afterUri, title, { preview: true });
+}
+
+/**
+ * Close the preview and apply the previewed selection, or go back to the selection in the import tree
+ */
+export async function resolveImportPreview(apply: boolean): Promise<void> {
+    const prepared = activePreview;
+    activePreview = undefined;
+    await closePreviewEditors();
+    previewContents.clear();
+
+    if (!getImportSelectionResolver()) {
+        vscode.window.showWarningMessage('The import selection is no longer open.');
+        return;
+    }
+    if (!apply) {
+        // The selection stays open so it can be changed and previewed again
+        await vscode.commands.executeCommand('rfImportSelector.focus');
+        return;
+    }
+    await resolveImportSelection(true, prepared);
+}
+
+/**
+ * Register the content provider of the import diff preview
+ */
+export function registerImportPreview(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, new ImportPreviewContentProvider())
+    );
+}
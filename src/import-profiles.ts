@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExistingImport, ImportType } from './types';
+import { ImportTreeItem } from './tree/items';
+import { parseExistingImports } from './parsers';
+import { resolveImport } from './import-resolver';
+
+// Profile file in the workspace, so profiles can be committed with the project
+const PROFILES_FILE = path.join('.vscode', 'rf-import-profiles.json');
+
+const IMPORT_TYPES: ImportType[] = ['Library', 'Resource', 'Variables'];
+
+// Import saved in a profile: a workspace file (path from the workspace root) and/or a name
+// written as is (installed libraries, module names)
+export interface ProfileImport {
+    type: ImportType;
+    file?: string;
+    name?: string;
+    args?: string[];
+    alias?: string;
+    aliasMarker?: string; // 'AS' or 'WITH NAME', as written when the profile was saved
+}
+
+// Named set of imports that can be applied to new and existing files
+export interface ImportProfile {
+    name: string;
+    imports: ProfileImport[];
+}
+
+// Whether a profile import is in the file, missing, or selected in the tree and written on confirm
+export interface ProfileImportState {
+    imp: ProfileImport;
+    state: 'imported' | 'missing' | 'selected';
+}
+
+/**
+ * Get the profile file of the workspace
+ */
+function getProfilesFile(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) return undefined;
+    return path.join(workspaceFolders[0].uri.fsPath, PROFILES_FILE);
+}
+
+/**
+ * Check that a parsed JSON value is a usable profile import
+ */
+function isProfileImport(value: unknown): value is ProfileImport {
+    const imp = value as ProfileImport;
+    return !!imp && IMPORT_TYPES.includes(imp.type) &&
+        (typeof imp.file === 'string' || typeof imp.name === 'string');
+}
+
+/**
+ * Read the import profiles of the workspace. Invalid entries are dropped;
+ * a file that is not valid JSON throws so it is never overwritten.
+ */
+export function loadImportProfiles(): ImportProfile[] {
+    const profilesFile = getProfilesFile();
+    if (!profilesFile || !fs.existsSync(profilesFile)) return [];
+
+    let data: { profiles?: unknown };
+    try {
+        data = JSON.parse(fs.readFileSync(profilesFile, 'utf8'));
+    } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Invalid ${PROFILES_FILE.replace(/\\/g, '/')}: ${msg}`);
+    }
+
+    if (!Array.isArray(data?.profiles)) return [];
+    return data.profiles
+        .filter((profile: ImportProfile) => typeof profile?.name === 'string' && Array.isArray(profile.imports))
+        .map((profile: ImportProfile) => ({ name: profile.name, imports: profile.imports.filter(isProfileImport) }));
+}
+
+/**
+ * Save a profile, replacing a profile with the same name
+ */
+export function saveImportProfile(profile: ImportProfile): void {
+    const profilesFile = getProfilesFile();
+    if (!profilesFile) throw new Error('No workspace folder open.');
+
+    const profiles = loadImportProfiles();
+    const index = profiles.findIndex(existing => existing.name === profile.name);
+    if (index >= 0) {
+        profiles[index] = profile;
+    } else {
+        profiles.push(profile);
+    }
+
+    fs.mkdirSync(path.dirname(profilesFile), { recursive: true });
+    fs.writeFileSync(profilesFile, JSON.stringify({ profiles }, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Create profile imports from the selection of the import tree and imports without a file item
+ */
+export function createProfileImports(selectedItems: ImportTreeItem[], namedImports: ExistingImport[]): ProfileImport[] {
+    const imports: ProfileImport[] = [];
+
+    for (const item of selectedItems) {
+        if (!item.selectedImportType) continue;
+        imports.push({
+            type: item.selectedImportType,
+            file: item.absolutePath,
+            ...(item.importName ? { name: item.importName } : {}),
+            ...(item.importArgs.length > 0 ? { args: item.importArgs } : {}),
+            ...(item.importAlias ? { alias: item.importAlias } : {}),
+            ...(item.importAlias && item.importAliasMarker ? { aliasMarker: item.importAliasMarker } : {})
+        });
+    }
+    for (const imp of namedImports) {
+        imports.push({
+            type: imp.type,
+            name: imp.path,
+            ...(imp.args && imp.args.length > 0 ? { args: imp.args } : {}),
+            ...(imp.alias ? { alias: imp.alias } : {}),
+            ...(imp.alias && imp.aliasMarker ? { aliasMarker: imp.aliasMarker } : {})
+        });
+    }
+
+    return imports;
+}
+
+/**
+ * Merge the imports of several profiles; later duplicates of the same file or name are dropped
+ */
+export function mergeProfileImports(profiles: ImportProfile[]): ProfileImport[] {
+    const seen = new Set<string>();
+    const imports: ProfileImport[] = [];
+    for (const imp of profiles.flatMap(profile => profile.imports)) {
+        const key = `${imp.type}:${imp.file || imp.name}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        imports.push(imp);
+    }
+    return imports;
+}
+
+/**
+ * Let the user pick one or more profiles
+ */
+export async function pickImportProfiles(profiles: ImportProfile[], placeHolder: string): Promise<ImportProfile[] | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        profiles.map(profile => ({ label: profile.name, description: `${profile.imports.length} import(s)`, profile })),
+        { placeHolder, canPickMany: true }
+    );
+    return picked?.map(item => item.profile);
+}
+
+/**
+ * Get a short label for a profile import
+ */
+export function getProfileImportLabel(imp: ProfileImport): string {
+    return imp.name || imp.file!;
+}
+
+/**
+ * Check which profile imports a file already has: workspace files by the file their imports
+ * resolve to, names by the name as written
+ */
+export function getProfileImportStates(imports: ProfileImport[], filePath: string, content: string, workspaceRoot: string): ProfileImportState[] {
+    const existing = parseExistingImports(content);
+    const resolved = new Set(existing
+        .map(imp => resolveImport(imp, filePath, content))
+        .filter((target): target is string => !!target)
+        .map(target => path.normalize(target)));
+
+    return imports.map(imp => {
+        const present = (imp.file !== undefined && resolved.has(path.normalize(path.join(workspaceRoot, imp.file)))) ||
+            (imp.name !== undefined && existing.some(existingImport =>
+                existingImport.type === imp.type && existingImport.path.trim() === imp.name));
+        return { imp, state: present ? 'imported' : 'missing' };
+    });
+}
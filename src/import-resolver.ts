@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { parseRobotDocument } from './robot-document';
+
+// Variable values by normalized name
+export type VariableTable = { [normalizedName: string]: string };
+
+/**
+ * Normalize a variable name the way Robot Framework compares them (case, spaces and underscores ignored)
+ */
+export function normalizeVariableName(name: string): string {
+    return name.replace(/[\s_]/g, '').toLowerCase();
+}
+
+/**
+ * Get the workspace folder containing a file, falling back to the first workspace folder
+ */
+export function getWorkspaceRootFor(filePath: string): string | undefined {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    return folder?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+}
+
+/**
+ * Get the configured pythonpath roots as absolute paths (relative entries are resolved against the workspace)
+ */
+export function getPythonPathRoots(filePath: string): string[] {
+    const config = vscode.workspace.getConfiguration('rfFilesCreator');
+    const entries = config.get<string[]>('pythonpath', ['.']);
+    const workspaceRoot = getWorkspaceRootFor(filePath);
+
+    const roots: string[] = [];
+    for (const entry of entries) {
+        if (path.isAbsolute(entry)) {
+            roots.push(path.normalize(entry));
+        } else if (workspaceRoot) {
+            roots.push(path.resolve(workspaceRoot, entry));
+        }
+    }
+    return roots;
+}
+
+/**
+ * Get the workspace default languages from the `rfFilesCreator.languages` setting
+ */
+export function getDefaultLanguages(): string[] {
+    const config = vscode.workspace.getConfiguration('rfFilesCreator');
+    return config.get<string[]>('languages', []);
+}
+
+/**
+ * Get the variables configured in the `rfFilesCreator.variables` setting
+ */
+export function getConfiguredVariables(): VariableTable {
+    const config = vscode.workspace.getConfiguration('rfFilesCreator');
+    const configured = config.get<{ [name: string]: string }>('variables', {});
+
+    const variables: VariableTable = {};
+    for (const [name, value] of Object.entries(configured)) {
+        // Accept both `ROOT` and `${ROOT}` as keys
+        const bare = name.replace(/^\$\{(.*)\}$/, '$1');
+        variables[normalizeVariableName(bare)] = String(value);
+    }
+    return variables;
+}
+
+/**
+ * Collect scalar variables from the *** Variables *** section of a file
+ */
+export function collectFileVariables(content: string): VariableTable {
+    const variables: VariableTable = {};
+    const document = parseRobotDocument(content, getDefaultLanguages());
+
+    for (const statement of document.variables) {
+        const match = statement.tokens[0].value.match(/^\$\{(.+)\}\s*=?$/);
+        if (!match) continue;
+        variables[normalizeVariableName(match[1])] = statement.tokens.slice(1).map(token => token.value).join(' ');
+    }
+    return variables;
+}
+
+/**
+ * Expand built-in, configured and file variables in an import path.
+ * Unknown variables are left in place.
+ */
+export function expandImportVariables(importPath: string, importingFile: string, fileContent?: string): string {
+    const workspaceRoot = getWorkspaceRootFor(importingFile);
+    let content = fileContent;
+    if (content === undefined) {
+        try {
+            content = fs.readFileSync(importingFile, 'utf8');
+        } catch {
+            content = '';
+        }
+    }
+
+    // File variables override configured ones, built-ins cannot be overridden
+    const variables: VariableTable = {
+        ...getConfiguredVariables(),
+        ...collectFileVariables(content),
+        'curdir': path.dirname(importingFile),
+        '/': '/',
+        ':': path.delimiter,
+        'space': ' ',
+        'tempdir': os.tmpdir()
+    };
+    if (workspaceRoot) variables['execdir'] = workspaceRoot;
+
+    let expanded = importPath;
+    // Values may reference other variables, stop after a few passes to avoid cycles
+    for (let pass = 0; pass < 5; pass++) {
+        const next = expanded
+            .replace(/\$\{([^{}]+)\}/g, (whole, name: string) => {
+                const value = variables[normalizeVariableName(name)];
+                return value !== undefined ? value : whole;
+            })
+            .replace(/%\{([^{}]+)\}/g, (whole, name: string) => process.env[name] ?? whole);
+        if (next === expanded) break;
+        expanded = next;
+    }
+    return expanded;
+}
+
+/**
+ * Check if a path points to an existing file
+ */
+export function isExistingFile(filePath: string): boolean {
+    try {
+        return fs.statSync(filePath).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * List the files a path may point at, in lookup order: absolute paths as is, relative paths
+ * against the importing file's folder and then each pythonpath root
+ */
+function getPathCandidates(expandedPath: string, importingFile: string): string[] {
+    const normalized = expandedPath.replace(/\\/g, '/');
+    if (path.isAbsolute(normalized) || /^[A-Za-z]:\//.test(normalized)) {
+        return [path.normalize(normalized)];
+    }
+
+    const searchRoots = [path.dirname(importingFile), ...getPythonPathRoots(importingFile)];
+    return searchRoots.map(root => path.resolve(root, normalized));
+}
+
+/**
+ * List the Python sources a module name may point at in the pythonpath roots. The last part may be
+ * a class name (`module.ClassName`), and packages resolve to their `__init__.py`.
+ */
+function getModuleCandidates(moduleName: string, importingFile: string): string[] {
+    const parts = moduleName.split('.');
+    const candidates: string[] = [];
+
+    for (const root of getPythonPathRoots(importingFile)) {
+        // Try the full name first, then without a trailing class name
+        for (let count = parts.length; count >= Math.max(1, parts.length - 1); count--) {
+            const modulePath = path.join(root, ...parts.slice(0, count));
+            candidates.push(`${modulePath}.py`, path.join(modulePath, '__init__.py'));
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Resolve a Resource, Variables or path-based Library import to a file the way Robot Framework does:
+ * variables are expanded, then the path is looked up relative to the importing file and then
+ * relative to each pythonpath root.
+ */
+export function resolveImportPath(importPath: string, importingFile: string, fileContent?: string): string | undefined {
+    const expanded = expandImportVariables(importPath.trim(), importingFile, fileContent);
+    if (/[$%]\{/.test(expanded)) return undefined; // Unresolved variables
+
+    return getPathCandidates(expanded, importingFile).find(isExistingFile);
+}
+
+/**
+ * Check if a Library import is a Python module name (`custom_lib`, `Libraries.pages.login_page`)
+ * rather than a file path
+ */
+export function isModuleName(importPath: string): boolean {
+    return /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(importPath) && !/\.py$/i.test(importPath);
+}
+
+/**
+ * Resolve a module name to its Python source in the pythonpath roots. The last part may be a
+ * class name (`module.ClassName`), and packages resolve to their `__init__.py`.
+ */
+export function resolveLibraryModule(moduleName: string, importingFile: string): string | undefined {
+    return getModuleCandidates(moduleName, importingFile).find(isExistingFile);
+}
+
+/**
+ * List the files an import may point at, in Robot Framework's lookup order.
+ * Empty when the path contains variables that cannot be expanded.
+ */
+export function getImportCandidates(
+    imp: { type: string; path: string },
+    importingFile: string,
+    fileContent?: string
+): string[] {
+    const expanded = expandImportVariables(imp.path.trim(), importingFile, fileContent);
+    if (/[$%]\{/.test(expanded)) return [];
+
+    if (imp.type === 'Library' && isModuleName(expanded)) {
+        return getModuleCandidates(expanded, importingFile);
+    }
+    return getPathCandidates(expanded, importingFile);
+}
+
+/**
+ * Resolve any import to a file: Library module names through the pythonpath,
+ * paths relative to the importing file and then the pythonpath
+ */
+export function resolveImport(
+    imp: { type: string; path: string },
+    importingFile: string,
+    fileContent?: string
+): string | undefined {
+    return getImportCandidates(imp, importingFile, fileContent).find(isExistingFile);
+}
+
+// Module name for a Python file and the reasons it may not be importable
+export interface ModuleNameInfo {
+    moduleName: string;
+    importable: boolean; // false when a name part is not a valid Python identifier
+    problems: string[];
+}
+
+/**
+ * Get the module name of a Python file relative to the deepest pythonpath root containing it.
+ * Returns undefined when the file is outside every root.
+ */
+export function getModuleNameForFile(filePath: string): ModuleNameInfo | undefined {
+    const roots = getPythonPathRoots(filePath)
+        .filter(root => {
+            const relative = path.relative(root, filePath);
+            return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+        })
+        .sort((a, b) => b.length - a.length);
+    if (roots.length === 0) return undefined;
+
+    const root = roots[0];
+    const relative = path.relative(root, filePath).replace(/\.py$/i, '');
+    const parts = relative.split(path.sep);
+    if (parts[parts.length - 1] === '__init__') parts.pop();
+
+    const problems: string[] = [];
+    const invalidParts = parts.filter(part => !/^[A-Za-z_]\w*$/.test(part));
+    if (invalidParts.length > 0) {
+        problems.push(`invalid module name part(s): ${invalidParts.join(', ')}`);
+    }
+
+    // Every folder between the root and the file must be a package
+    let folder = root;
+    for (const part of parts.slice(0, -1)) {
+        folder = path.join(folder, part);
+        if (!isExistingFile(path.join(folder, '__init__.py'))) {
+            problems.push(`missing __init__.py in ${path.relative(root, folder).replace(/\\/g, '/')}`);
+        }
+    }
+
+    return { moduleName: parts.join('.'), importable: invalidParts.length === 0, problems };
+}
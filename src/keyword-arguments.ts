@@ -0,0 +1,101 @@
+import { KeywordArgument } from './types';
+
+/**
+ * Parse a Robot Framework argument specification such as `${name}`, `${timeout: int}=10`,
+ * `@{varargs}` or `&{kwargs}`. Arguments after varargs are named-only.
+ */
+export function parseRobotArguments(specs: string[]): KeywordArgument[] {
+    const args: KeywordArgument[] = [];
+    let afterVarargs = false;
+
+    for (const spec of specs) {
+        const match = spec.match(/^([$@&])\{([^}]*)\}(?:=([\s\S]*))?$/);
+        if (!match) continue;
+
+        const [, prefix, declaration, defaultValue] = match;
+        const colonIndex = declaration.indexOf(':');
+        const name = (colonIndex >= 0 ? declaration.substring(0, colonIndex) : declaration).trim();
+        const type = colonIndex >= 0 ? declaration.substring(colonIndex + 1).trim() : undefined;
+
+        if (prefix === '@') {
+            afterVarargs = true;
+            // A bare `@{}` only marks the start of named-only arguments
+            if (name) args.push({ name, kind: 'varargs', type });
+            continue;
+        }
+        if (prefix === '&') {
+            args.push({ name, kind: 'kwargs', type });
+            continue;
+        }
+
+        const arg: KeywordArgument = { name, kind: afterVarargs ? 'namedOnly' : 'positional' };
+        if (type) arg.type = type;
+        if (defaultValue !== undefined) arg.defaultValue = defaultValue;
+        args.push(arg);
+    }
+
+    return args;
+}
+
+/**
+ * Get the embedded arguments of a keyword name, e.g. `Login As ${user} With ${password}`
+ */
+export function getEmbeddedArguments(keywordName: string): KeywordArgument[] {
+    const args: KeywordArgument[] = [];
+    const embeddedRegex = /\$\{([^}:]+)(?::([^}]*))?\}/g;
+
+    let match;
+    while ((match = embeddedRegex.exec(keywordName)) !== null) {
+        const arg: KeywordArgument = { name: match[1].trim(), kind: 'embedded' };
+        // `${name:pattern}` is a custom regexp, `${name: type}` (with a space) a type hint
+        if (match[2] !== undefined && match[2].startsWith(' ')) {
+            arg.type = match[2].trim();
+        }
+        args.push(arg);
+    }
+
+    return args;
+}
+
+/**
+ * Format an argument in Robot Framework notation for display
+ */
+export function formatKeywordArgument(arg: KeywordArgument): string {
+    const declaration = arg.type ? `${arg.name}: ${arg.type}` : arg.name;
+
+    switch (arg.kind) {
+        case 'varargs':
+            return `@{${declaration}}`;
+        case 'kwargs':
+            return `&{${declaration}}`;
+        default:
+            return arg.defaultValue !== undefined
+                ? `\${${declaration}}=${arg.defaultValue}`
+                : `\${${declaration}}`;
+    }
+}
+
+/**
+ * Format the arguments that are passed as separate cells (embedded arguments are part of the name)
+ */
+export function formatKeywordArguments(args: KeywordArgument[]): string[] {
+    return args.filter(arg => arg.kind !== 'embedded').map(formatKeywordArgument);
+}
+
+/**
+ * Describe an argument kind for display
+ */
+export function describeArgumentKind(arg: KeywordArgument): string {
+    switch (arg.kind) {
+        case 'varargs':
+            return 'variable positional';
+        case 'kwargs':
+            return 'free named';
+        case 'namedOnly':
+            return 'named-only';
+        case 'embedded':
+            return 'embedded';
+        default:
+            return arg.defaultValue !== undefined ? 'optional' : 'required';
+    }
+}
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ExtractedKeyword, ImportType } from './types';
+import { extractKeywordsFromFile, extractKeywordsFromRobotFile } from './parsers';
+import { getImportInsertion } from './file-operations';
+import { EXCLUDED_FOLDERS } from './constants';
+import { getStandardLibraryKeywords } from './standard-libraries';
+import { getModuleNameForFile } from './import-resolver';
+import { formatImportPath } from './import-path-styles';
+import { collectImportedKeywords } from './unused-imports';
+import { findKeywordCallTokens, createKeywordMatcher } from './keyword-usage';
+
+// Workspace file providing a keyword, with the import type it needs
+interface KeywordSource {
+    filePath: string;
+    importType: ImportType;
+}
+
+// Extracted keywords by file path; an entry is dropped when the watcher reports its file changed
+const keywordCache = new Map<string, ExtractedKeyword[]>();
+
+// Keywords available in a document by URI and version; cleared when a workspace file changes,
+// as imported files change the result without changing the document
+const availableKeywordCache = new Map<string, { version: number; keywords: ExtractedKeyword[] }>();
+
+// Resource files and Python libraries of the workspace; cleared when files are created or deleted
+let keywordSourceFiles: string[] | undefined;
+
+/**
+ * Get the keywords of a workspace file, reusing earlier results until the file changes
+ */
+function getFileKeywords(filePath: string): ExtractedKeyword[] {
+    let keywords = keywordCache.get(filePath);
+    if (!keywords) {
+        try {
+            keywords = extractKeywordsFromFile(filePath);
+        } catch {
+            keywords = [];
+        }
+        keywordCache.set(filePath, keywords);
+    }
+    return keywords;
+}
+
+/**
+ * Check if a keyword call is defined in the file itself, in BuiltIn or in anything it imports
+ */
+function isKeywordAvailable(cell: string, document: vscode.TextDocument): boolean {
+    const key = document.uri.toString();
+    let cached = availableKeywordCache.get(key);
+    if (!cached || cached.version !== document.version) {
+        const content = document.getText();
+        cached = {
+            version: document.version,
+            keywords: [
+                ...extractKeywordsFromRobotFile(content),
+                ...getStandardLibraryKeywords('BuiltIn'),
+                ...collectImportedKeywords(content, document.uri.fsPath)
+            ]
+        };
+        availableKeywordCache.set(key, cached);
+    }
+    return cached.keywords.some(keyword => createKeywordMatcher(keyword.name)(cell));
+}
+
+/**
+ * Find resource files and Python libraries in the workspace that define a keyword
+ */
+async function findKeywordSources(cell: string, documentPath: string): Promise<KeywordSource[]> {
+    if (!keywordSourceFiles) {
+        const files = await vscode.workspace.findFiles('**/*.{resource,py}', EXCLUDED_FOLDERS);
+        keywordSourceFiles = files.map(file => file.fsPath);
+    }
+
+    return keywordSourceFiles
+        .filter(filePath => filePath !== documentPath)
+        .filter(filePath => getFileKeywords(filePath).some(keyword => createKeywordMatcher(keyword.name)(cell)))
+        .sort()
+        .map(filePath => ({
+            filePath,
+            importType: path.extname(filePath).toLowerCase() === '.py' ? 'Library' as const : 'Resource' as const
+        }));
+}
+
+/**
+ * Format the import path of a file in the style chosen in `rfFilesCreator.importPathStyle`
+ */
+export function getPreferredImportPath(filePath: string, documentPath: string, importType: ImportType): string {
+    const style = vscode.workspace.getConfiguration('rfFilesCreator').get<string>('importPathStyle', 'relative');
+
+    if (style === 'module' && importType === 'Library') {
+        const info = getModuleNameForFile(filePath);
+        if (info?.importable) return info.moduleName;
+    }
+    if (style === 'workspace' || style === 'curdir') {
+        const formatted = formatImportPath(filePath, documentPath, style);
+        if (formatted) return formatted;
+    }
+    return formatImportPath(filePath, documentPath, 'relative')!;
+}
+
+/**
+ * Offers imports for keyword calls that nothing imported by the file provides
+ */
+export class KeywordImportCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    async provideCodeActions(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): Promise<vscode.CodeAction[]> {
+        if (context.only && !context.only.contains(vscode.CodeActionKind.QuickFix)) return [];
+
+        const content = document.getText();
+        const documentPath = document.uri.fsPath;
+        const position = range.start;
+
+        const token = findKeywordCallTokens(content).find(call =>
+            call.line === position.line &&
+            position.character >= call.column &&
+            position.character <= call.column + call.value.length
+        );
+        if (!token || /[$@&%]\{/.test(token.value) || isKeywordAvailable(token.value, document)) {
+            return [];
+        }
+
+        const sources = await findKeywordSources(token.value, documentPath);
+        try {
+            return sources.map(source => {
+                const importPath = getPreferredImportPath(source.filePath, documentPath, source.importType);
+                const insertion = getImportInsertion(content, source.importType, importPath);
+
+                const action = new vscode.CodeAction(`Import ${source.importType} ${importPath}`, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.insert(document.uri, new vscode.Position(insertion.line, insertion.character), insertion.text);
+                action.isPreferred = sources.length === 1;
+                return action;
+            });
+        } catch {
+            // No place for the import: the file has section headers in an unknown language
+            return [];
+        }
+    }
+}
+
+/**
+ * Register the auto-import quick fix for .robot and .resource files
+ */
+export function registerKeywordAutoImport(context: vscode.ExtensionContext): void {
+    const selector: vscode.DocumentSelector = [
+        { scheme: 'file', pattern: '**/*.robot' },
+        { scheme: 'file', pattern: '**/*.resource' }
+    ];
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.{robot,resource,py}');
+    const clearCaches = (uri: vscode.Uri, filesAddedOrRemoved: boolean) => {
+        keywordCache.delete(uri.fsPath);
+        availableKeywordCache.clear();
+        if (filesAddedOrRemoved) keywordSourceFiles = undefined;
+    };
+
+    context.subscriptions.push(
+        watcher,
+        watcher.onDidChange(uri => clearCaches(uri, false)),
+        watcher.onDidCreate(uri => clearCaches(uri, true)),
+        watcher.onDidDelete(uri => clearCaches(uri, true)),
+        vscode.workspace.onDidCloseTextDocument(document => availableKeywordCache.delete(document.uri.toString())),
+        vscode.languages.registerCodeActionsProvider(selector, new KeywordImportCodeActionProvider(), {
+            providedCodeActionKinds: KeywordImportCodeActionProvider.providedCodeActionKinds
+        })
+    );
+}
@@ -0,0 +1,124 @@
+import { RobotStatement, RobotToken } from './types';
+import { parseRobotDocument } from './robot-document';
+import { getImportTypeForSetting } from './parsers';
+import { normalizeVariableName, getDefaultLanguages } from './import-resolver';
+
+// Cells and variables referenced by a Robot Framework file
+export interface FileUsage {
+    cells: string[]; // Cells of test, task and keyword bodies and non-import settings
+    variables: Set<string>; // Normalized names of referenced variables
+}
+
+// Settings whose value is a keyword call
+const KEYWORD_SETTINGS = new Set([
+    'suite setup', 'suite teardown', 'test setup', 'test teardown', 'task setup', 'task teardown',
+    'test template', 'task template', '[setup]', '[teardown]', '[template]'
+]);
+
+// Control structure markers that start a statement without calling a keyword
+const CONTROL_MARKERS = new Set([
+    'FOR', ': FOR', 'END', 'IF', 'ELSE IF', 'ELSE', 'WHILE', 'TRY', 'EXCEPT', 'FINALLY',
+    'BREAK', 'CONTINUE', 'RETURN', 'VAR', 'GROUP'
+]);
+
+/**
+ * Normalize a keyword name the way Robot Framework compares them (case, spaces and underscores ignored)
+ */
+export function normalizeKeywordName(name: string): string {
+    return name.replace(/[\s_]/g, '').toLowerCase();
+}
+
+/**
+ * Get the names a cell may call: as written, without a Given/When/Then/And/But prefix
+ * and without a `Library.` or `resource.` qualifier
+ */
+export function getKeywordCallCandidates(cell: string): string[] {
+    const candidates = [cell];
+    const withoutBdd = cell.replace(/^(given|when|then|and|but)\s+/i, '');
+    if (withoutBdd !== cell) candidates.push(withoutBdd);
+
+    for (const candidate of [...candidates]) {
+        const dotIndex = candidate.lastIndexOf('.');
+        if (dotIndex > 0 && dotIndex < candidate.length - 1) {
+            candidates.push(candidate.substring(dotIndex + 1));
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Create a matcher telling whether a cell calls the keyword, supporting embedded arguments
+ */
+export function createKeywordMatcher(keywordName: string): (cell: string) => boolean {
+    if (/\$\{[^}]+\}/.test(keywordName)) {
+        const pattern = keywordName
+            .split(/\$\{[^}]+\}/)
+            .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('.+?');
+        const regex = new RegExp(`^${pattern}$`, 'i');
+        return cell => getKeywordCallCandidates(cell).some(candidate => regex.test(candidate));
+    }
+
+    const normalized = normalizeKeywordName(keywordName);
+    return cell => getKeywordCallCandidates(cell).some(candidate => normalizeKeywordName(candidate) === normalized);
+}
+
+/**
+ * Collect the cells and variable references of a file
+ */
+export function collectFileUsage(content: string): FileUsage {
+    const document = parseRobotDocument(content, getDefaultLanguages());
+    const cells: string[] = [];
+    const variables = new Set<string>();
+
+    // Settings such as Suite Setup and Test Template call keywords too
+    for (const statement of document.settings) {
+        if (getImportTypeForSetting(statement.name)) continue;
+        cells.push(...statement.tokens.slice(1).map(token => token.value));
+    }
+    for (const block of [...document.testCases, ...document.keywords]) {
+        for (const statement of block.statements) {
+            cells.push(...statement.tokens.map(token => token.value));
+        }
+    }
+
+    // Variables may be used anywhere, including import paths and the Variables section
+    const allTokens = document.sections.flatMap(section => section.statements.flatMap(statement => statement.tokens));
+    for (const token of allTokens) {
+        const variableRegex = /[$@&%]\{([^{}]+)\}/g;
+        let match;
+        while ((match = variableRegex.exec(token.value)) !== null) {
+            variables.add(normalizeVariableName(match[1]));
+            // Extended syntax (`${user.name}`, `${items}[0]`) uses the base variable
+            variables.add(normalizeVariableName(match[1].split(/[.[]/)[0]));
+        }
+    }
+
+    return { cells, variables };
+}
+
+/**
+ * Get the keyword cell of a test, task or keyword body statement, skipping variable assignments
+ */
+function getStatementKeywordToken(statement: RobotStatement): RobotToken | undefined {
+    if (KEYWORD_SETTINGS.has(statement.name)) return statement.tokens[1];
+
+    const first = statement.tokens[0];
+    if (!first || first.value.startsWith('[') || CONTROL_MARKERS.has(first.value)) return undefined;
+    return statement.tokens.find(token => !/^[$@&]\{.+\}\s*=?$/.test(token.value));
+}
+
+/**
+ * Find the cells of a file that call keywords (body statements and setup, teardown and template settings)
+ */
+export function findKeywordCallTokens(content: string): RobotToken[] {
+    const document = parseRobotDocument(content, getDefaultLanguages());
+    const statements = [
+        ...document.settings.filter(statement => KEYWORD_SETTINGS.has(statement.name)),
+        ...[...document.testCases, ...document.keywords].flatMap(block => block.statements)
+    ];
+
+    return statements
+        .map(getStatementKeywordToken)
+        .filter((token): token is RobotToken => !!token && token.value !== '' && token.value.toUpperCase() !== 'NONE');
+}
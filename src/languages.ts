@@ -0,0 +1,221 @@
+// Translations of the section headers and settings used by the extension
+export interface RobotLanguage {
+    code: string;
+    name: string;
+    headers: {
+        settings: string;
+        variables: string;
+        testCases: string;
+        tasks: string;
+        keywords: string;
+        comments: string;
+    };
+    settings: {
+        library: string;
+        resource: string;
+        variables: string;
+        documentation: string;
+        arguments: string;
+        tags: string;
+        timeout?: string;
+        setup?: string;
+        teardown?: string;
+    };
+}
+
+// Languages shipped with Robot Framework (English is always enabled)
+export const ROBOT_LANGUAGES: RobotLanguage[] = [
+    {
+        code: 'en', name: 'English',
+        headers: { settings: 'Settings', variables: 'Variables', testCases: 'Test Cases', tasks: 'Tasks', keywords: 'Keywords', comments: 'Comments' },
+        settings: { library: 'Library', resource: 'Resource', variables: 'Variables', documentation: 'Documentation', arguments: 'Arguments', tags: 'Tags', timeout: 'Timeout', setup: 'Setup', teardown: 'Teardown' }
+    },
+    {
+        code: 'ar', name: 'Arabic',
+        headers: { settings: 'الإعدادات', variables: 'المتغيرات', testCases: 'وضعيات الاختبار', tasks: 'المهام', keywords: 'الأوامر', comments: 'التعليقات' },
+        settings: { library: 'المكتبة', resource: 'المورد', variables: 'المتغيرات', documentation: 'التوثيق', arguments: 'المعطيات', tags: 'العلامات' }
+    },
+    {
+        code: 'bg', name: 'Bulgarian',
+        headers: { settings: 'Настройки', variables: 'Променливи', testCases: 'Тестови случаи', tasks: 'Задачи', keywords: 'Ключови думи', comments: 'Коментари' },
+        settings: { library: 'Библиотека', resource: 'Ресурс', variables: 'Променлива', documentation: 'Документация', arguments: 'Аргументи', tags: 'Етикети' }
+    },
+    {
+        code: 'bs', name: 'Bosnian',
+        headers: { settings: 'Postavke', variables: 'Varijable', testCases: 'Test Cases', tasks: 'Taskovi', keywords: 'Keywords', comments: 'Komentari' },
+        settings: { library: 'Biblioteka', resource: 'Resursi', variables: 'Varijable', documentation: 'Dokumentacija', arguments: 'Argumenti', tags: 'Tagovi' }
+    },
+    {
+        code: 'cs', name: 'Czech',
+        headers: { settings: 'Nastavení', variables: 'Proměnné', testCases: 'Testovací případy', tasks: 'Úlohy', keywords: 'Klíčová slova', comments: 'Komentáře' },
+        settings: { library: 'Knihovna', resource: 'Zdroj', variables: 'Proměnná', documentation: 'Dokumentace', arguments: 'Argumenty', tags: 'Štítky' }
+    },
+    {
+        code: 'de', name: 'German',
+        headers: { settings: 'Einstellungen', variables: 'Variablen', testCases: 'Testfälle', tasks: 'Aufgaben', keywords: 'Schlüsselwörter', comments: 'Kommentare' },
+        settings: { library: 'Bibliothek', resource: 'Ressource', variables: 'Variablen', documentation: 'Dokumentation', arguments: 'Argumente', tags: 'Stichworte', timeout: 'Zeitlimit', setup: 'Vorbereitung', teardown: 'Nachbereitung' }
+    },
+    {
+        code: 'es', name: 'Spanish',
+        headers: { settings: 'Configuraciones', variables: 'Variables', testCases: 'Casos de prueba', tasks: 'Tareas', keywords: 'Palabras clave', comments: 'Comentarios' },
+        settings: { library: 'Biblioteca', resource: 'Recursos', variables: 'Variable', documentation: 'Documentación', arguments: 'Argumentos', tags: 'Etiquetas' }
+    },
+    {
+        code: 'fi', name: 'Finnish',
+        headers: { settings: 'Asetukset', variables: 'Muuttujat', testCases: 'Testit', tasks: 'Tehtävät', keywords: 'Avainsanat', comments: 'Kommentit' },
+        settings: { library: 'Kirjasto', resource: 'Resurssi', variables: 'Muuttujat', documentation: 'Dokumentaatio', arguments: 'Argumentit', tags: 'Tagit', timeout: 'Aikaraja', setup: 'Alustus', teardown: 'Alasajo' }
+    },
+    {
+        code: 'fr', name: 'French',
+        headers: { settings: 'Paramètres', variables: 'Variables', testCases: 'Unités de test', tasks: 'Tâches', keywords: 'Mots-clés', comments: 'Commentaires' },
+        settings: { library: 'Bibliothèque', resource: 'Ressource', variables: 'Variable', documentation: 'Documentation', arguments: 'Arguments', tags: 'Balises' }
+    },
+    {
+        code: 'hi', name: 'Hindi',
+        headers: { settings: 'स्थापना', variables: 'चर', testCases: 'नियत कार्य प्रवेशिका', tasks: 'कार्य प्रवेशिका', keywords: 'कुंजीशब्द', comments: 'टिप्पणी' },
+        settings: { library: 'कोड़ प्रतिबिंब संग्रह', resource: 'संसाधन', variables: 'चर', documentation: 'प्रलेखन', arguments: 'प्राचल', tags: 'निशान' }
+    },
+    {
+        code: 'it', name: 'Italian',
+        headers: { settings: 'Impostazioni', variables: 'Variabili', testCases: 'Casi Di Test', tasks: 'Attività', keywords: 'Parole Chiave', comments: 'Commenti' },
+        settings: { library: 'Libreria', resource: 'Risorsa', variables: 'Variabile', documentation: 'Documentazione', arguments: 'Parametri', tags: 'Tag' }
+    },
+    {
+        code: 'ja', name: 'Japanese',
+        headers: { settings: '設定', variables: '変数', testCases: 'テスト ケース', tasks: 'タスク', keywords: 'キーワード', comments: 'コメント' },
+        settings: { library: 'ライブラリ', resource: 'リソース', variables: '変数', documentation: 'ドキュメント', arguments: '引数', tags: 'タグ' }
+    },
+    {
+        code: 'ko', name: 'Korean',
+        headers: { settings: '설정', variables: '변수', testCases: '테스트 사례', tasks: '작업', keywords: '키워드', comments: '의견' },
+        settings: { library: '라이브러리', resource: '자료', variables: '변수', documentation: '문서', arguments: '인수', tags: '태그' }
+    },
+    {
+        code: 'nl', name: 'Dutch',
+        headers: { settings: 'Instellingen', variables: 'Variabelen', testCases: 'Testgevallen', tasks: 'Taken', keywords: 'Sleutelwoorden', comments: 'Opmerkingen' },
+        settings: { library: 'Bibliotheek', resource: 'Resource', variables: 'Variabele', documentation: 'Documentatie', arguments: 'Parameters', tags: 'Labels' }
+    },
+    {
+        code: 'pl', name: 'Polish',
+        headers: { settings: 'Ustawienia', variables: 'Zmienne', testCases: 'Przypadki Testowe', tasks: 'Zadania', keywords: 'Słowa Kluczowe', comments: 'Komentarze' },
+        settings: { library: 'Biblioteka', resource: 'Zasób', variables: 'Zmienne', documentation: 'Dokumentacja', arguments: 'Argumenty', tags: 'Znaczniki' }
+    },
+    {
+        code: 'pt', name: 'Portuguese',
+        headers: { settings: 'Definições', variables: 'Variáveis', testCases: 'Casos de Teste', tasks: 'Tarefas', keywords: 'Palavras-Chave', comments: 'Comentários' },
+        settings: { library: 'Biblioteca', resource: 'Recurso', variables: 'Variável', documentation: 'Documentação', arguments: 'Argumentos', tags: 'Etiquetas' }
+    },
+    {
+        code: 'pt-br', name: 'Brazilian Portuguese',
+        headers: { settings: 'Configurações', variables: 'Variáveis', testCases: 'Casos de Teste', tasks: 'Tarefas', keywords: 'Palavras-Chave', comments: 'Comentários' },
+        settings: { library: 'Biblioteca', resource: 'Recurso', variables: 'Variável', documentation: 'Documentação', arguments: 'Argumentos', tags: 'Etiquetas' }
+    },
+    {
+        code: 'ro', name: 'Romanian',
+        headers: { settings: 'Setari', variables: 'Variabile', testCases: 'Cazuri De Test', tasks: 'Sarcini', keywords: 'Cuvinte Cheie', comments: 'Comentarii' },
+        settings: { library: 'Librarie', resource: 'Resursa', variables: 'Variabila', documentation: 'Documentatie', arguments: 'Argumente', tags: 'Etichete' }
+    },
+    {
+        code: 'ru', name: 'Russian',
+        headers: { settings: 'Настройки', variables: 'Переменные', testCases: 'Заголовки тестов', tasks: 'Задача', keywords: 'Ключевые слова', comments: 'Комментарии' },
+        settings: { library: 'Библиотека', resource: 'Ресурс', variables: 'Переменные', documentation: 'Документация', arguments: 'Аргументы', tags: 'Метки' }
+    },
+    {
+        code: 'sv', name: 'Swedish',
+        headers: { settings: 'Inställningar', variables: 'Variabler', testCases: 'Testfall', tasks: 'Taskar', keywords: 'Nyckelord', comments: 'Kommentarer' },
+        settings: { library: 'Bibliotek', resource: 'Resurs', variables: 'Variabel', documentation: 'Dokumentation', arguments: 'Argument', tags: 'Taggar' }
+    },
+    {
+        code: 'th', name: 'Thai',
+        headers: { settings: 'การตั้งค่า', variables: 'กำหนดตัวแปร', testCases: 'การทดสอบ', tasks: 'งาน', keywords: 'คำสั่งเพิ่มเติม', comments: 'คำอธิบาย' },
+        settings: { library: 'ชุดคำสั่งที่ใช้', resource: 'ไฟล์ที่ใช้', variables: 'ชุดตัวแปร', documentation: 'เอกสาร', arguments: 'ค่าที่ส่งเข้ามา', tags: 'กลุ่ม' }
+    },
+    {
+        code: 'tr', name: 'Turkish',
+        headers: { settings: 'Ayarlar', variables: 'Değişkenler', testCases: 'Test Durumları', tasks: 'Görevler', keywords: 'Anahtar Kelimeler', comments: 'Yorumlar' },
+        settings: { library: 'Kütüphane', resource: 'Kaynak', variables: 'Değişkenler', documentation: 'Dokümantasyon', arguments: 'Argümanlar', tags: 'Etiketler' }
+    },
+    {
+        code: 'uk', name: 'Ukrainian',
+        headers: { settings: 'Налаштування', variables: 'Змінні', testCases: 'Тест-кейси', tasks: 'Завдань', keywords: 'Ключових слова', comments: 'Коментарів' },
+        settings: { library: 'Бібліотека', resource: 'Ресурс', variables: 'Змінна', documentation: 'Документація', arguments: 'Аргументи', tags: 'Теги' }
+    },
+    {
+        code: 'vi', name: 'Vietnamese',
+        headers: { settings: 'Cài Đặt', variables: 'Các biến số', testCases: 'Các kịch bản kiểm thử', tasks: 'Các nghiệm vụ', keywords: 'Các từ khóa', comments: 'Các chú thích' },
+        settings: { library: 'Thư viện', resource: 'Tài nguyên', variables: 'Biến số', documentation: 'Tài liệu', arguments: 'Các đối số', tags: 'Các nhãn' }
+    },
+    {
+        code: 'zh-cn', name: 'Chinese Simplified',
+        headers: { settings: '设置', variables: '变量', testCases: '用例', tasks: '任务', keywords: '关键字', comments: '备注' },
+        settings: { library: '程序库', resource: '资源文件', variables: '变量文件', documentation: '说明', arguments: '参数', tags: '标签' }
+    },
+    {
+        code: 'zh-tw', name: 'Chinese Traditional',
+        headers: { settings: '設置', variables: '變量', testCases: '案例', tasks: '任務', keywords: '關鍵字', comments: '備註' },
+        settings: { library: '函式庫', resource: '資源文件', variables: '變量文件', documentation: '說明', arguments: '參數', tags: '標籤' }
+    }
+];
+
+/**
+ * Normalize a language name or code the way Robot Framework does
+ * (case, spaces, hyphens and underscores are ignored)
+ */
+function normalizeLanguageName(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]/g, '');
+}
+
+/**
+ * Find a language by code (`fi`, `pt-BR`) or name (`Finnish`, `Brazilian Portuguese`)
+ */
+export function findRobotLanguage(nameOrCode: string): RobotLanguage | undefined {
+    const normalized = normalizeLanguageName(nameOrCode);
+    return ROBOT_LANGUAGES.find(language =>
+        normalizeLanguageName(language.code) === normalized ||
+        normalizeLanguageName(language.name) === normalized
+    );
+}
+
+/**
+ * Detect `language: <name>` markers at the top of a file (before the first section)
+ */
+export function detectFileLanguages(lines: string[]): RobotLanguage[] {
+    const languages: RobotLanguage[] = [];
+
+    for (const line of lines) {
+        const trimmedLine = line.trim();
+        if (trimmedLine.startsWith('*')) break;
+
+        const match = trimmedLine.match(/^language:\s*(.+)$/i);
+        if (match) {
+            const language = findRobotLanguage(match[1].trim());
+            if (language && !languages.includes(language)) {
+                languages.push(language);
+            }
+        }
+    }
+
+    return languages;
+}
+
+/**
+ * Resolve the languages active for a file: file markers first, then workspace defaults.
+ * English is always included last.
+ */
+export function resolveActiveLanguages(lines: string[], defaultLanguages: string[] = []): RobotLanguage[] {
+    const languages = detectFileLanguages(lines);
+
+    for (const nameOrCode of defaultLanguages) {
+        const language = findRobotLanguage(nameOrCode);
+        if (language && !languages.includes(language)) {
+            languages.push(language);
+        }
+    }
+
+    const english = ROBOT_LANGUAGES[0];
+    if (!languages.includes(english)) {
+        languages.push(english);
+    }
+
+    return languages;
+}
@@ -0,0 +1,431 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExtractedKeyword, KeywordArgument, KeywordArgumentKind } from './types';
+import { getEmbeddedArguments, formatKeywordArguments } from './keyword-arguments';
+import { getStandardLibraryName, getStandardLibraryKeywords } from './standard-libraries';
+
+// Keywords of a library read from a Libdoc spec file
+export interface LibdocSpec {
+    name: string;
+    filePath: string;
+    keywords: ExtractedKeyword[];
+}
+
+// Where keywords for a library import were found
+export interface LibraryKeywordSource {
+    keywords: ExtractedKeyword[];
+    source: string; // Spec file path or standard library name
+}
+
+// Parts of a Libdoc JSON spec that are read; values are still checked as the file may be hand written
+interface LibdocJsonType {
+    name?: string;
+    union?: boolean;
+    nested?: LibdocJsonType[];
+}
+
+interface LibdocJsonArgument {
+    name?: string;
+    kind?: string;
+    type?: LibdocJsonType | null; // RF 6 and later
+    types?: string[]; // Before RF 6
+    defaultValue?: unknown;
+}
+
+interface LibdocJsonKeyword {
+    name?: string;
+    args?: LibdocJsonArgument[];
+    doc?: string;
+    tags?: unknown[];
+}
+
+interface LibdocJson {
+    name?: string;
+    docFormat?: string;
+    keywords: LibdocJsonKeyword[];
+}
+
+// Parsed specs by file path, reused until the file changes
+const specCache = new Map<string, { mtime: number; spec: LibdocSpec | null }>();
+
+// Specs by library name and spec file name, built on the first lookup and cleared when spec files
+// or the configured spec folders change
+let specIndex: Map<string, LibdocSpec> | undefined;
+
+const SPEC_EXTENSIONS = ['.libspec', '.xml', '.json'];
+
+// Libdoc argument kinds
+const ARGUMENT_KINDS: { [kind: string]: KeywordArgumentKind } = {
+    'POSITIONAL_ONLY': 'positional',
+    'POSITIONAL_OR_NAMED': 'positional',
+    'VAR_POSITIONAL': 'varargs',
+    'NAMED_ONLY': 'namedOnly',
+    'VAR_NAMED': 'kwargs'
+};
+
+/**
+ * Get the configured spec folders as absolute paths
+ */
+export function getLibdocSpecFolders(): string[] {
+    const config = vscode.workspace.getConfiguration('rfFilesCreator');
+    const configured = config.get<string[]>('libdocSpecPaths', []);
+    const roots = (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+
+    const folders: string[] = [];
+    for (const folder of configured) {
+        if (path.isAbsolute(folder)) {
+            folders.push(folder);
+        } else {
+            roots.forEach(root => folders.push(path.join(root, folder)));
+        }
+    }
+    return folders.filter(folder => fs.existsSync(folder));
+}
+
+/**
+ * Collect spec files from a folder and its subfolders
+ */
+function collectSpecFiles(folder: string, files: string[] = []): string[] {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(folder, { withFileTypes: true });
+    } catch {
+        return files;
+    }
+
+    for (const entry of entries) {
+        const fullPath = path.join(folder, entry.name);
+        if (entry.isDirectory()) {
+            collectSpecFiles(fullPath, files);
+        } else if (SPEC_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+            files.push(fullPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Decode the XML entities used by Libdoc
+ */
+function decodeXmlEntities(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert HTML documentation (`--specdocformat HTML`) to plain text rows
+ */
+function htmlToText(html: string): string {
+    const text = html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|li|tr|h\d|pre|table)>/gi, '\n')
+        .replace(/<[^>]+>/g, '');
+    return decodeXmlEntities(text)
+        .split('\n')
+        .map(line => line.trimEnd())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Get an attribute value from an XML start tag
+ */
+function getXmlAttribute(attributes: string, name: string): string | undefined {
+    const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+    return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+/**
+ * Get the text content of the first child element with the given tag
+ */
+function getXmlElementText(xml: string, tag: string): string | undefined {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+    return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+/**
+ * Create a keyword from Libdoc data, falling back to embedded arguments in the name
+ */
+function createSpecKeyword(
+    name: string,
+    args: KeywordArgument[],
+    doc: string,
+    tags: string[],
+    library: string
+): ExtractedKeyword {
+    const embeddedArguments = getEmbeddedArguments(name);
+    const keywordArgs = args.length === 0 && embeddedArguments.length > 0 ? embeddedArguments : args;
+    return {
+        name,
+        args: formatKeywordArguments(keywordArgs),
+        doc: doc || 'No description',
+        library,
+        arguments: keywordArgs,
+        tags
+    };
+}
+
+/**
+ * Parse an argument in the Libdoc 2 format (`name=default`, `*args`, `**kwargs`)
+ */
+function parseLegacyArgument(text: string, afterVarargs: boolean): KeywordArgument {
+    if (text.startsWith('**')) return { name: text.substring(2), kind: 'kwargs' };
+    if (text.startsWith('*')) return { name: text.substring(1), kind: 'varargs' };
+
+    const [declaration, ...defaultParts] = text.split('=');
+    const [name, ...typeParts] = declaration.split(':');
+    const arg: KeywordArgument = { name: name.trim(), kind: afterVarargs ? 'namedOnly' : 'positional' };
+    if (typeParts.length > 0) arg.type = typeParts.join(':').trim();
+    if (defaultParts.length > 0) arg.defaultValue = defaultParts.join('=').trim();
+    return arg;
+}
+
+/**
+ * Get the type of a Libdoc XML argument (`<type>int</type>` before RF 6, `<type name="int"/>` after)
+ */
+function getXmlArgumentType(argBody: string): string | undefined {
+    const plainTypes = Array.from(argBody.matchAll(/<type>([^<]*)<\/type>/g), m => decodeXmlEntities(m[1]).trim());
+    if (plainTypes.length > 0) return plainTypes.join(' | ');
+
+    const typeMatch = argBody.match(/<type\b([^>]*?)\/?>/);
+    if (!typeMatch) return undefined;
+
+    // Unions list their members as nested types
+    if (getXmlAttribute(typeMatch[1], 'union') === 'true') {
+        const rest = argBody.substring((typeMatch.index || 0) + typeMatch[0].length);
+        const members = Array.from(rest.matchAll(/<type\b[^>]*\bname="([^"]*)"/g), m => decodeXmlEntities(m[1]));
+        return members.join(' | ') || undefined;
+    }
+    return getXmlAttribute(typeMatch[1], 'name');
+}
+
+/**
+ * Parse a Libdoc XML spec (`libdoc --format XML` or `.libspec`)
+ */
+export function parseLibdocXml(content: string, filePath: string): LibdocSpec | null {
+    const rootMatch = content.match(/<keywordspec\b([^>]*)>/);
+    if (!rootMatch) return null;
+
+    const name = getXmlAttribute(rootMatch[1], 'name') || path.basename(filePath, path.extname(filePath));
+    const isHtml = (getXmlAttribute(rootMatch[1], 'format') || '').toUpperCase() === 'HTML';
+    const keywords: ExtractedKeyword[] = [];
+
+    const keywordRegex = /<kw\b([^>]*)>([\s\S]*?)<\/kw>/g;
+    let kwMatch;
+    while ((kwMatch = keywordRegex.exec(content)) !== null) {
+        const [, attributes, body] = kwMatch;
+        const keywordName = getXmlAttribute(attributes, 'name');
+        if (!keywordName) continue;
+
+        const args: KeywordArgument[] = [];
+        const argumentsMatch = body.match(/<arguments\b[^>]*>([\s\S]*?)<\/arguments>/);
+        const argumentsBlock = argumentsMatch ? argumentsMatch[1] : '';
+        const argRegex = /<arg\b([^>]*?)(?:\/>|>([\s\S]*?)<\/arg>)/g;
+        let argMatch;
+        let afterVarargs = false;
+        while ((argMatch = argRegex.exec(argumentsBlock)) !== null) {
+            const [, argAttributes, argBody = ''] = argMatch;
+            const kind = getXmlAttribute(argAttributes, 'kind');
+
+            // Libdoc 2 format: the element text is the whole argument
+            if (!kind) {
+                const arg = parseLegacyArgument(decodeXmlEntities(argBody).trim(), afterVarargs);
+                if (arg.kind === 'varargs') afterVarargs = true;
+                args.push(arg);
+                continue;
+            }
+
+            const argName = getXmlElementText(argBody, 'name');
+            if (!argName) continue; // Bare `*` marker
+
+            const arg: KeywordArgument = { name: argName.trim(), kind: ARGUMENT_KINDS[kind] || 'positional' };
+            const type = getXmlArgumentType(argBody);
+            if (type) arg.type = type;
+
+            const defaultValue = getXmlElementText(argBody, 'default');
+            if (defaultValue !== undefined) arg.defaultValue = defaultValue;
+            args.push(arg);
+        }
+
+        const rawDoc = getXmlElementText(body, 'doc') || '';
+        const doc = isHtml ? htmlToText(rawDoc) : rawDoc.trim();
+        const tags = Array.from(body.matchAll(/<tag>([\s\S]*?)<\/tag>/g), m => decodeXmlEntities(m[1]).trim());
+
+        keywords.push(createSpecKeyword(keywordName, args, doc, tags, name));
+    }
+
+    return { name, filePath, keywords };
+}
+
+/**
+ * Get a display type from a Libdoc JSON argument (`type` in RF 6+, `types` before)
+ */
+function getJsonArgumentType(arg: LibdocJsonArgument): string | undefined {
+    const getTypeName = (type: LibdocJsonType | null | undefined): string => {
+        if (!type) return '';
+        if (type.union && Array.isArray(type.nested)) {
+            return type.nested.map(getTypeName).filter(Boolean).join(' | ');
+        }
+        return type.name || '';
+    };
+
+    if (arg.type) return getTypeName(arg.type) || undefined;
+    if (Array.isArray(arg.types) && arg.types.length > 0) return arg.types.join(' | ');
+    return undefined;
+}
+
+/**
+ * Check that parsed JSON looks like a Libdoc spec
+ */
+function isLibdocJson(data: unknown): data is LibdocJson {
+    return !!data && typeof data === 'object' && Array.isArray((data as LibdocJson).keywords);
+}
+
+/**
+ * Parse a Libdoc JSON spec (`libdoc --format JSON`)
+ */
+export function parseLibdocJson(content: string, filePath: string): LibdocSpec | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        return null;
+    }
+    if (!isLibdocJson(data)) return null;
+
+    const name = typeof data.name === 'string' && data.name ? data.name : path.basename(filePath, path.extname(filePath));
+    const isHtml = String(data.docFormat || '').toUpperCase() === 'HTML';
+
+    const keywords = data.keywords
+        .filter((kw): kw is LibdocJsonKeyword & { name: string } => !!kw && typeof kw.name === 'string')
+        .map(kw => {
+            const args: KeywordArgument[] = (Array.isArray(kw.args) ? kw.args : [])
+                .filter((arg): arg is LibdocJsonArgument & { name: string } => !!arg && typeof arg.name === 'string' && arg.name !== '')
+                .map(arg => {
+                    const result: KeywordArgument = { name: arg.name, kind: ARGUMENT_KINDS[arg.kind || ''] || 'positional' };
+                    const type = getJsonArgumentType(arg);
+                    if (type) result.type = type;
+                    if (arg.defaultValue !== null && arg.defaultValue !== undefined) result.defaultValue = String(arg.defaultValue);
+                    return result;
+                });
+            const doc = typeof kw.doc === 'string' ? (isHtml ? htmlToText(kw.doc) : kw.doc.trim()) : '';
+            const tags = Array.isArray(kw.tags) ? kw.tags.map(String) : [];
+            return createSpecKeyword(kw.name, args, doc, tags, name);
+        });
+
+    return { name, filePath, keywords };
+}
+
+/**
+ * Load a spec file, reusing the cached result while the file is unchanged
+ */
+export function loadLibdocSpec(filePath: string): LibdocSpec | null {
+    let mtime: number;
+    try {
+        mtime = fs.statSync(filePath).mtimeMs;
+    } catch {
+        specCache.delete(filePath);
+        return null;
+    }
+
+    const cached = specCache.get(filePath);
+    if (cached && cached.mtime === mtime) return cached.spec;
+
+    let spec: LibdocSpec | null = null;
+    try {
+        const content = fs.readFileSync(filePath, 'utf8');
+        spec = path.extname(filePath).toLowerCase() === '.json'
+            ? parseLibdocJson(content, filePath)
+            : parseLibdocXml(content, filePath);
+    } catch {
+        // Unreadable specs are cached as missing until the file changes
+    }
+
+    specCache.set(filePath, { mtime, spec });
+    return spec;
+}
+
+/**
+ * Get the specs of the configured spec folders by library name and spec file name
+ */
+function getSpecIndex(): Map<string, LibdocSpec> {
+    if (specIndex) return specIndex;
+
+    specIndex = new Map();
+    for (const folder of getLibdocSpecFolders()) {
+        for (const file of collectSpecFiles(folder)) {
+            const spec = loadLibdocSpec(file);
+            if (!spec) continue;
+            for (const key of [spec.name, path.basename(file, path.extname(file))]) {
+                if (!specIndex.has(key)) specIndex.set(key, spec);
+            }
+        }
+    }
+    return specIndex;
+}
+
+/**
+ * Find the Libdoc spec for a Library import by library name or spec file name
+ */
+export function findLibdocSpec(libraryName: string): LibdocSpec | null {
+    return getSpecIndex().get(libraryName.trim()) || null;
+}
+
+/**
+ * Rebuild the spec index when spec files change or the spec folders are configured differently
+ */
+export function registerLibdocSpecWatchers(context: vscode.ExtensionContext): void {
+    let watchers: vscode.FileSystemWatcher[] = [];
+    const clearSpecIndex = () => {
+        specIndex = undefined;
+    };
+    const watchSpecFolders = () => {
+        watchers.forEach(watcher => watcher.dispose());
+        watchers = getLibdocSpecFolders().map(folder => {
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '**/*.{libspec,xml,json}'));
+            watcher.onDidChange(clearSpecIndex);
+            watcher.onDidCreate(clearSpecIndex);
+            watcher.onDidDelete(clearSpecIndex);
+            return watcher;
+        });
+    };
+    const refresh = () => {
+        clearSpecIndex();
+        watchSpecFolders();
+    };
+
+    watchSpecFolders();
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('rfFilesCreator.libdocSpecPaths')) refresh();
+        }),
+        vscode.workspace.onDidChangeWorkspaceFolders(refresh),
+        { dispose: () => watchers.forEach(watcher => watcher.dispose()) }
+    );
+}
+
+/**
+ * Get keywords for a Library import that is not a file: Libdoc specs first, then the bundled standard libraries
+ */
+export function findLibraryKeywords(libraryName: string): LibraryKeywordSource | null {
+    const spec = findLibdocSpec(libraryName);
+    if (spec) {
+        return { keywords: spec.keywords, source: spec.filePath };
+    }
+
+    const standardLibrary = getStandardLibraryName(libraryName);
+    if (standardLibrary) {
+        return { keywords: getStandardLibraryKeywords(standardLibrary), source: standardLibrary };
+    }
+
+    return null;
+}
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import { ExistingImport, ImportType } from './types';
+import { parseExistingImports } from './parsers';
+import { parseRobotDocument } from './robot-document';
+import { isRobotFrameworkFile, getChangedRange } from './file-operations';
+import { isStandardLibrary } from './standard-libraries';
+import { isModuleName, getDefaultLanguages } from './import-resolver';
+
+// Ordering and formatting rules from the `rfFilesCreator.organizeImports.*` settings
+export interface OrganizeImportsOptions {
+    typeOrder: ImportType[];
+    standardLibrariesFirst: boolean;
+    sortAlphabetically: boolean;
+    groupByFolder: boolean; // Sort by folder and separate folders with a blank line
+    alignColumns: boolean; // Start all import paths in the same column
+}
+
+// Import statement with its original lines
+interface ImportStatement {
+    imp: ExistingImport;
+    lines: string[];
+}
+
+// Imports with only blank lines between them, from the first line of the first import to the
+// last line of the last import
+interface ImportRun {
+    start: number;
+    end: number;
+    statements: ImportStatement[];
+}
+
+/**
+ * Read the organize imports settings
+ */
+export function getOrganizeImportsOptions(): OrganizeImportsOptions {
+    const config = vscode.workspace.getConfiguration('rfFilesCreator.organizeImports');
+    return {
+        typeOrder: config.get<ImportType[]>('typeOrder', ['Library', 'Resource', 'Variables']),
+        standardLibrariesFirst: config.get<boolean>('standardLibrariesFirst', true),
+        sortAlphabetically: config.get<boolean>('sortAlphabetically', true),
+        groupByFolder: config.get<boolean>('groupByFolder', false),
+        alignColumns: config.get<boolean>('alignColumns', true)
+    };
+}
+
+/**
+ * Get the folder part of an import path (empty for module names and paths without a folder)
+ */
+function getImportFolder(imp: ExistingImport): string {
+    const normalized = imp.path.replace(/\$\{\/\}|\\/g, '/');
+    if (imp.type === 'Library' && isModuleName(normalized)) return '';
+    const slashIndex = normalized.lastIndexOf('/');
+    return slashIndex >= 0 ? normalized.substring(0, slashIndex).toLowerCase() : '';
+}
+
+/**
+ * Get the key identifying exact duplicates: same type, path, arguments and alias
+ */
+function getDuplicateKey(imp: ExistingImport): string {
+    return [imp.type, imp.path, ...(imp.args || []), imp.aliasMarker || '', imp.alias || ''].join('\u0000');
+}
+
+/**
+ * Compare two imports by the configured rules; equal imports keep their original order
+ */
+function compareImports(a: ExistingImport, b: ExistingImport, options: OrganizeImportsOptions): number {
+    const typeIndex = (imp: ExistingImport) => {
+        const index = options.typeOrder.indexOf(imp.type);
+        return index >= 0 ? index : options.typeOrder.length;
+    };
+    if (typeIndex(a) !== typeIndex(b)) return typeIndex(a) - typeIndex(b);
+
+    if (options.standardLibrariesFirst && a.type === 'Library') {
+        const standardA = isStandardLibrary(a.path) ? 0 : 1;
+        const standardB = isStandardLibrary(b.path) ? 0 : 1;
+        if (standardA !== standardB) return standardA - standardB;
+    }
+
+    if (options.groupByFolder) {
+        const folderCompare = getImportFolder(a).localeCompare(getImportFolder(b));
+        if (folderCompare !== 0) return folderCompare;
+    }
+
+    return options.sortAlphabetically ? a.path.toLowerCase().localeCompare(b.path.toLowerCase()) : 0;
+}
+
+/**
+ * Rewrite the first line of a single-line space separated statement so the path starts at `column`.
+ * Everything after the setting name (arguments, alias, comments) is kept as written.
+ */
+function alignStatement(statement: ImportStatement, column: number): string[] {
+    const { settingToken, pathToken } = statement.imp.location!;
+    const line = statement.lines[0];
+    if (line.trimStart().startsWith('|') || pathToken.line !== settingToken.line) return statement.lines;
+
+    const padding = ' '.repeat(Math.max(4, column - settingToken.value.length));
+    return [settingToken.value + padding + line.substring(pathToken.column), ...statement.lines.slice(1)];
+}
+
+/**
+ * Get the sorted and aligned lines of a run of imports
+ */
+function getRunLines(statements: ImportStatement[], column: number, options: OrganizeImportsOptions): string[] {
+    // Array.prototype.sort is stable, so equal imports keep their order
+    const sorted = [...statements].sort((a, b) => compareImports(a.imp, b.imp, options));
+
+    const runLines: string[] = [];
+    sorted.forEach((statement, index) => {
+        const previous = sorted[index - 1];
+        if (options.groupByFolder && previous &&
+            (previous.imp.type !== statement.imp.type || getImportFolder(previous.imp) !== getImportFolder(statement.imp))) {
+            runLines.push('');
+        }
+        runLines.push(...(options.alignColumns ? alignStatement(statement, column) : statement.lines));
+    });
+    return runLines;
+}
+
+/**
+ * Sort, deduplicate and align the imports of the Settings section.
+ * Each run of imports (imports with only blank lines between them) is rewritten in place; other
+ * settings and comments stay where they are. Blank lines inside a run are dropped (folder groups
+ * are separated again), so organizing again changes nothing.
+ */
+export function organizeImports(fileContent: string, options: OrganizeImportsOptions): string {
+    const document = parseRobotDocument(fileContent, getDefaultLanguages());
+    const { lines, eol, bom } = document;
+
+    const imports = parseExistingImports(fileContent).filter(imp => imp.location);
+    if (imports.length === 0) return fileContent;
+    const importsByLine = new Map(imports.map(imp => [imp.location!.startLine, imp]));
+
+    const runs: ImportRun[] = [];
+    let run: ImportRun | undefined;
+    for (let index = 0; index < lines.length; index++) {
+        const imp = importsByLine.get(index);
+        if (imp) {
+            if (!run) {
+                run = { start: index, end: index, statements: [] };
+                runs.push(run);
+            }
+            run.statements.push({ imp, lines: lines.slice(index, imp.location!.endLine + 1) });
+            run.end = imp.location!.endLine;
+            index = imp.location!.endLine;
+        } else if (lines[index].trim() !== '') {
+            run = undefined;
+        }
+    }
+
+    // Exact duplicates are removed across runs; the first one stays
+    const seen = new Set<string>();
+    for (const importRun of runs) {
+        importRun.statements = importRun.statements.filter(statement => {
+            const key = getDuplicateKey(statement.imp);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    const column = Math.max(...imports.map(imp => imp.location!.settingToken.value.length)) + 4;
+    const runsByLine = new Map(runs.map(importRun => [importRun.start, importRun]));
+
+    const result: string[] = [];
+    for (let index = 0; index < lines.length; index++) {
+        const importRun = runsByLine.get(index);
+        if (!importRun) {
+            result.push(lines[index]);
+            continue;
+        }
+        result.push(...getRunLines(importRun.statements, column, options));
+        index = importRun.end;
+    }
+
+    return bom + result.join(eol);
+}
+
+/**
+ * Create the edit organizing the imports of a document, or none when nothing changes
+ */
+export function getOrganizeImportsEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    const change = getChangedRange(document, organizeImports(document.getText(), getOrganizeImportsOptions()));
+    return change ? [vscode.TextEdit.replace(change.range, change.text)] : [];
+}
+
+/**
+ * Organize imports before .robot and .resource files are saved when `rfFilesCreator.organizeImportsOnSave` is on
+ */
+export function registerOrganizeImportsOnSave(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.workspace.onWillSaveTextDocument(event => {
+            const enabled = vscode.workspace.getConfiguration('rfFilesCreator').get<boolean>('organizeImportsOnSave', false);
+            if (!enabled || !isRobotFrameworkFile(event.document.uri.fsPath)) return;
+            event.waitUntil(Promise.resolve(getOrganizeImportsEdits(event.document)));
+        })
+    );
+}
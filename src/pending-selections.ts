@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { ExistingImport, ImportType } from './types';
+import { getImportsHash } from './import-merge';
+
+// Key of the pending selections in the workspace state
+const STORAGE_KEY = 'rfFilesCreator.pendingSelections';
+
+// Selection state of a file item in the import tree
+export interface PendingItem {
+    filePath: string;
+    importType: ImportType | null;
+    args: string[];
+    alias: string;
+    aliasMarker: string;
+    importName: string;
+}
+
+// Changes made in the import tree that are not confirmed yet
+export interface PendingSelection {
+    items: PendingItem[];
+    addedImports: ExistingImport[]; // Imports without a file item (from import profiles)
+}
+
+// Stored selection with the imports the target file had when it was saved
+interface StoredSelection extends PendingSelection {
+    importsHash: string;
+}
+
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * Keep pending selections in the workspace state so they survive reloads and restarts
+ */
+export function initializePendingSelections(context: vscode.ExtensionContext): void {
+    workspaceState = context.workspaceState;
+}
+
+/**
+ * Read all stored selections by target file
+ */
+function getStoredSelections(): Record<string, StoredSelection> {
+    return workspaceState?.get<Record<string, StoredSelection>>(STORAGE_KEY) || {};
+}
+
+/**
+ * Store the pending selection of a target file; an empty selection removes it
+ */
+export async function savePendingSelection(targetFile: string, fileContent: string, selection: PendingSelection): Promise<void> {
+    if (!workspaceState) return;
+
+    const stored = { ...getStoredSelections() };
+    if (selection.items.length === 0 && selection.addedImports.length === 0) {
+        delete stored[targetFile];
+    } else {
+        stored[targetFile] = { ...selection, importsHash: getImportsHash(fileContent) };
+    }
+    await workspaceState.update(STORAGE_KEY, stored);
+}
+
+/**
+ * Remove the pending selection of a target file after it was confirmed or canceled
+ */
+export async function clearPendingSelection(targetFile: string): Promise<void> {
+    if (!workspaceState || !getStoredSelections()[targetFile]) return;
+
+    const stored = { ...getStoredSelections() };
+    delete stored[targetFile];
+    await workspaceState.update(STORAGE_KEY, stored);
+}
+
+/**
+ * Get the stored pending selection of a target file.
+ * Selections made while the file had different imports are dropped.
+ */
+export async function getPendingSelection(targetFile: string, fileContent: string): Promise<PendingSelection | undefined> {
+    const stored = getStoredSelections()[targetFile];
+    if (!stored) return undefined;
+
+    if (stored.importsHash !== getImportsHash(fileContent)) {
+        await clearPendingSelection(targetFile);
+        return undefined;
+    }
+    return { items: stored.items, addedImports: stored.addedImports };
+}
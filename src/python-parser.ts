@@ -0,0 +1,497 @@
+import { ExtractedKeyword, KeywordArgument } from './types';
+import { getEmbeddedArguments, formatKeywordArguments } from './keyword-arguments';
+
+// Logical Python line (physical lines joined by brackets, strings or backslashes)
+interface PythonLogicalLine {
+    text: string; // Source text with comments removed
+    indent: number; // Indentation of the first physical line
+    line: number; // 0-based first physical line
+}
+
+// Function or method definition found in the source
+interface PythonFunction {
+    name: string;
+    params: string[];
+    decorators: string[];
+    docstring: string;
+}
+
+// Module or class that can act as a Robot Framework library
+interface PythonLibraryScope {
+    name: string;
+    isClass: boolean;
+    autoKeywords: boolean; // false when ROBOT_AUTO_KEYWORDS = False or @library is used
+    functions: PythonFunction[];
+}
+
+// Open definition while scanning
+interface PythonScope {
+    kind: 'module' | 'class' | 'function';
+    indent: number;
+    library?: PythonLibraryScope;
+    func?: PythonFunction;
+    expectDocstring: boolean;
+}
+
+/**
+ * Split Python source into logical lines, tracking strings, comments and brackets
+ */
+function splitLogicalLines(source: string): PythonLogicalLine[] {
+    const result: PythonLogicalLine[] = [];
+    let text = '';
+    let depth = 0;
+    let line = 0;
+    let startLine = 0;
+    let atLineStart = true;
+    let indent = 0;
+    let i = 0;
+
+    const flush = () => {
+        if (text.trim()) {
+            result.push({ text: text.trim(), indent, line: startLine });
+        }
+        text = '';
+        atLineStart = true;
+        indent = 0;
+    };
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        // Measure indentation of a new logical line
+        if (atLineStart) {
+            if (ch === ' ' || ch === '\t') {
+                indent += ch === '\t' ? 8 - (indent % 8) : 1;
+                i++;
+                continue;
+            }
+            atLineStart = false;
+            startLine = line;
+        }
+
+        // String literals (including prefixes like r, b, f and triple quotes)
+        if (ch === '"' || ch === "'") {
+            const triple = source.substr(i, 3) === ch.repeat(3);
+            const quote = triple ? ch.repeat(3) : ch;
+            let j = i + quote.length;
+            while (j < source.length) {
+                if (source[j] === '\\') {
+                    j += 2;
+                    continue;
+                }
+                if (source.startsWith(quote, j)) {
+                    j += quote.length;
+                    break;
+                }
+                if (!triple && source[j] === '\n') break;
+                j++;
+            }
+            const literal = source.substring(i, j);
+            line += (literal.match(/\n/g) || []).length;
+            text += literal;
+            i = j;
+            continue;
+        }
+
+        if (ch === '#') {
+            while (i < source.length && source[i] !== '\n') i++;
+            continue;
+        }
+
+        if (ch === '\\' && source[i + 1] === '\n') {
+            text += ' ';
+            line++;
+            i += 2;
+            continue;
+        }
+
+        if (ch === '\r') {
+            i++;
+            continue;
+        }
+
+        if (ch === '\n') {
+            line++;
+            i++;
+            if (depth > 0) {
+                text += ' ';
+            } else {
+                flush();
+            }
+            continue;
+        }
+
+        if (ch === '(' || ch === '[' || ch === '{') depth++;
+        if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+
+        text += ch;
+        i++;
+    }
+
+    flush();
+    return result;
+}
+
+/**
+ * Split text on commas that are not nested in brackets or strings
+ */
+function splitTopLevel(text: string, separator: string = ','): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            current += ch;
+            if (ch === '\\') {
+                current += text[++i] ?? '';
+            } else if (ch === quote) {
+                quote = null;
+            }
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+        } else if (ch === separator && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += ch;
+    }
+
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+/**
+ * Find the index of the bracket closing the one at `openIndex`
+ */
+function findClosingBracket(text: string, openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = openIndex; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\') i++;
+            else if (ch === quote) quote = null;
+            continue;
+        }
+        if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (ch === ')' || ch === ']' || ch === '}') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Extract the value of a string literal (single, double or triple quoted)
+ */
+function parseStringLiteral(text: string): string | null {
+    const match = text.trim().match(/^[rRuUbBfF]{0,2}("""|'''|"|')([\s\S]*)\1$/);
+    return match ? match[2] : null;
+}
+
+/**
+ * Remove common indentation from a docstring and trim it
+ */
+function cleanDocstring(docstring: string): string {
+    const lines = docstring.split('\n');
+    const indents = lines.slice(1)
+        .filter(line => line.trim())
+        .map(line => line.length - line.trimStart().length);
+    const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+    return [lines[0].trim(), ...lines.slice(1).map(line => line.substring(minIndent))]
+        .join('\n')
+        .trim();
+}
+
+/**
+ * Get the decorator name without `@`, module prefix and call arguments (e.g. `keyword`)
+ */
+function getDecoratorName(decorator: string): string {
+    const name = decorator.replace(/^@/, '').split('(')[0].trim();
+    return name.substring(name.lastIndexOf('.') + 1);
+}
+
+/**
+ * Check whether a `@library(...)` decorator leaves automatic keywords enabled
+ */
+function libraryDecoratorAllowsAutoKeywords(decorator: string): boolean {
+    return /auto_keywords\s*=\s*True/.test(decorator);
+}
+
+/**
+ * Extract a custom keyword name from `@keyword("Name")` or `@keyword(name="Name")`
+ */
+function getKeywordDecoratorName(decorator: string): string | null {
+    const openIndex = decorator.indexOf('(');
+    if (openIndex < 0) return null;
+
+    const closeIndex = findClosingBracket(decorator, openIndex);
+    const args = splitTopLevel(decorator.substring(openIndex + 1, closeIndex < 0 ? undefined : closeIndex));
+
+    for (const arg of args) {
+        const named = arg.match(/^name\s*=\s*([\s\S]+)$/);
+        const value = parseStringLiteral(named ? named[1] : arg);
+        if (value !== null && (named || args.indexOf(arg) === 0)) {
+            return value;
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse a `def` header into its name and parameter list
+ */
+function parseFunctionHeader(text: string): { name: string; params: string[]; rest: string } | null {
+    const match = text.match(/^(?:async\s+)?def\s+([A-Za-z_][A-Za-z0-9_]*)\s*\(/);
+    if (!match) return null;
+
+    const openIndex = match[0].length - 1;
+    const closeIndex = findClosingBracket(text, openIndex);
+    if (closeIndex < 0) return null;
+
+    // Text after the signature: optional `-> annotation`, then `:` and maybe a one-line body
+    const afterParams = text.substring(closeIndex + 1);
+    const colonIndex = afterParams.search(/:(?!=)/);
+    const rest = colonIndex >= 0 ? afterParams.substring(colonIndex + 1).trim() : '';
+
+    return {
+        name: match[1],
+        params: splitTopLevel(text.substring(openIndex + 1, closeIndex)),
+        rest
+    };
+}
+
+/**
+ * Convert Python parameters to keyword arguments, keeping type hints and default values
+ */
+export function convertPythonParams(params: string[], isMethod: boolean): KeywordArgument[] {
+    const args: KeywordArgument[] = [];
+    let afterVarargs = false;
+
+    params.forEach((param, index) => {
+        // Skip the instance/class parameter and the `/` marker
+        if (isMethod && index === 0 && !param.startsWith('*')) return;
+        if (param === '/') return;
+
+        // A bare `*` starts named-only arguments
+        if (param === '*') {
+            afterVarargs = true;
+            return;
+        }
+
+        if (param.startsWith('**')) {
+            const [name, ...typeParts] = splitTopLevel(param.substring(2), ':');
+            args.push({ name: name.trim(), kind: 'kwargs', type: typeParts.join(':').trim() || undefined });
+            return;
+        }
+        if (param.startsWith('*')) {
+            const [name, ...typeParts] = splitTopLevel(param.substring(1), ':');
+            args.push({ name: name.trim(), kind: 'varargs', type: typeParts.join(':').trim() || undefined });
+            afterVarargs = true;
+            return;
+        }
+
+        const [declaration, ...defaultParts] = splitTopLevel(param, '=');
+        const [name, ...typeParts] = splitTopLevel(declaration, ':');
+        const arg: KeywordArgument = { name: name.trim(), kind: afterVarargs ? 'namedOnly' : 'positional' };
+
+        const type = typeParts.join(':').trim();
+        if (type) arg.type = type;
+        // An empty default (`content=`) only occurs in bundled signatures
+        if (defaultParts.length > 0 || param.endsWith('=')) arg.defaultValue = defaultParts.join('=').trim();
+        args.push(arg);
+    });
+
+    return args;
+}
+
+/**
+ * Parse a Python style signature such as `item, msg=None, *values, **config`
+ */
+export function parsePythonSignature(signature: string): KeywordArgument[] {
+    return convertPythonParams(splitTopLevel(signature), false);
+}
+
+/**
+ * Extract tags from `@keyword(tags=['smoke', 'login'])`
+ */
+function getKeywordDecoratorTags(decorator: string): string[] {
+    const match = decorator.match(/tags\s*=\s*[[(]([^\])]*)[\])]/);
+    if (!match) return [];
+    return splitTopLevel(match[1])
+        .map(tag => parseStringLiteral(tag))
+        .filter((tag): tag is string => tag !== null);
+}
+
+/**
+ * Convert snake_case method name to Robot Framework Title Case format
+ * Example: this_is_an_example -> This Is An Example
+ */
+function snakeCaseToTitleCase(name: string): string {
+    return name
+        .split('_')
+        .filter(word => word !== '')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join(' ');
+}
+
+/**
+ * Scan Python source into library scopes (the module itself and its top-level classes)
+ */
+function scanPythonLibraries(content: string, moduleName: string): PythonLibraryScope[] {
+    const moduleLibrary: PythonLibraryScope = { name: moduleName, isClass: false, autoKeywords: true, functions: [] };
+    const libraries: PythonLibraryScope[] = [moduleLibrary];
+    const stack: PythonScope[] = [{ kind: 'module', indent: -1, library: moduleLibrary, expectDocstring: false }];
+    let decorators: string[] = [];
+
+    for (const logicalLine of splitLogicalLines(content)) {
+        const { text, indent } = logicalLine;
+
+        // Close scopes whose body has ended
+        while (stack.length > 1 && indent <= stack[stack.length - 1].indent) {
+            stack.pop();
+        }
+        const scope = stack[stack.length - 1];
+
+        // First statement of a function body may be its docstring
+        if (scope.expectDocstring) {
+            scope.expectDocstring = false;
+            const docstring = parseStringLiteral(text);
+            if (docstring !== null && scope.func) {
+                scope.func.docstring = cleanDocstring(docstring);
+                continue;
+            }
+        }
+
+        if (text.startsWith('@')) {
+            decorators.push(text);
+            continue;
+        }
+
+        const classMatch = text.match(/^class\s+([A-Za-z_][A-Za-z0-9_]*)/);
+        if (classMatch) {
+            const libraryDecorator = decorators.find(decorator => getDecoratorName(decorator) === 'library');
+            let library: PythonLibraryScope | undefined;
+
+            // Only public top-level classes can be libraries
+            if (scope.kind === 'module' && !classMatch[1].startsWith('_')) {
+                library = {
+                    name: classMatch[1],
+                    isClass: true,
+                    autoKeywords: libraryDecorator ? libraryDecoratorAllowsAutoKeywords(libraryDecorator) : true,
+                    functions: []
+                };
+                libraries.push(library);
+            }
+            stack.push({ kind: 'class', indent, library, expectDocstring: false });
+            decorators = [];
+            continue;
+        }
+
+        const header = parseFunctionHeader(text);
+        if (header) {
+            const func: PythonFunction = {
+                name: header.name,
+                params: header.params,
+                decorators,
+                docstring: ''
+            };
+
+            // Only module-level functions and direct class methods are keywords, never nested helpers
+            if ((scope.kind === 'module' || scope.kind === 'class') && scope.library) {
+                scope.library.functions.push(func);
+            }
+
+            // One-line body: `def f(): """doc"""`
+            const inlineDocstring = header.rest ? parseStringLiteral(header.rest) : null;
+            if (inlineDocstring !== null) {
+                func.docstring = cleanDocstring(inlineDocstring);
+            }
+
+            stack.push({ kind: 'function', indent, func, expectDocstring: !header.rest });
+            decorators = [];
+            continue;
+        }
+
+        decorators = [];
+
+        // ROBOT_AUTO_KEYWORDS = False disables automatic keywords for the module or class
+        const autoKeywordsMatch = text.match(/^ROBOT_AUTO_KEYWORDS\s*(?::[^=]+)?=\s*(\w+)/);
+        if (autoKeywordsMatch && scope.library && scope.kind !== 'function') {
+            scope.library.autoKeywords = autoKeywordsMatch[1] !== 'False';
+        }
+    }
+
+    return libraries;
+}
+
+/**
+ * Get the public classes of a Python module, each importable as `module.ClassName`
+ */
+export function getPythonLibraryClassNames(content: string): string[] {
+    return scanPythonLibraries(content, '')
+        .filter(library => library.isClass && !library.name.startsWith('_'))
+        .map(library => library.name);
+}
+
+/**
+ * Extract keywords from a Python library file following Robot Framework library rules.
+ * Module-level functions are grouped under the module name and methods under their class.
+ * A class with the same name as the module is the library, so only its keywords are returned.
+ */
+export function extractKeywordsFromPythonSource(content: string, moduleName: string = ''): ExtractedKeyword[] {
+    const keywords: ExtractedKeyword[] = [];
+
+    const libraries = scanPythonLibraries(content, moduleName);
+    const moduleClass = moduleName ? libraries.find(library => library.isClass && library.name === moduleName) : undefined;
+
+    for (const library of moduleClass ? [moduleClass] : libraries) {
+        for (const func of library.functions) {
+            const decoratorNames = func.decorators.map(getDecoratorName);
+            const keywordDecorator = func.decorators.find(decorator => getDecoratorName(decorator) === 'keyword');
+
+            // Private functions, @not_keyword and properties are never keywords
+            if (func.name.startsWith('_') || decoratorNames.includes('not_keyword') || decoratorNames.includes('property')) {
+                continue;
+            }
+
+            // Without automatic keywords only @keyword decorated functions are exposed
+            if (!library.autoKeywords && !keywordDecorator) {
+                continue;
+            }
+
+            const isMethod = library.isClass && !decoratorNames.includes('staticmethod');
+            const customName = keywordDecorator ? getKeywordDecoratorName(keywordDecorator) : null;
+            const name = customName || snakeCaseToTitleCase(func.name);
+
+            // Keywords with embedded arguments receive them through the name
+            const embeddedArguments = customName ? getEmbeddedArguments(customName) : [];
+            const args = embeddedArguments.length > 0
+                ? embeddedArguments
+                : convertPythonParams(func.params, isMethod);
+
+            keywords.push({
+                name,
+                args: formatKeywordArguments(args),
+                doc: func.docstring || 'No description',
+                library: library.name,
+                arguments: args,
+                tags: keywordDecorator ? getKeywordDecoratorTags(keywordDecorator) : []
+            });
+        }
+    }
+
+    return keywords;
+}
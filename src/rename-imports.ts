@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExistingImport } from './types';
+import { parseExistingImports } from './parsers';
+import { EXCLUDED_FOLDERS } from './constants';
+import {
+    expandImportVariables,
+    getImportCandidates,
+    getModuleNameForFile,
+    getPythonPathRoots,
+    isExistingFile,
+    isModuleName
+} from './import-resolver';
+import { getImportPathRange } from './import-diagnostics';
+import { readFileContent } from './file-operations';
+
+// Old and new location of a renamed or moved file or folder
+interface RenamedPath {
+    oldPath: string;
+    newPath: string;
+}
+
+// Files whose moves can break imports (folders are always tracked)
+const TRACKED_EXTENSIONS = ['.robot', '.resource', '.py', '.yaml', '.yml', '.json'];
+
+/**
+ * Check if a path is a folder or lies inside it
+ */
+function isInside(filePath: string, folder: string): boolean {
+    return filePath === folder || filePath.startsWith(folder + path.sep);
+}
+
+/**
+ * Map a path from before the rename to its location after it
+ */
+function mapToNewPath(filePath: string, renames: RenamedPath[]): string | undefined {
+    const rename = renames.find(item => isInside(filePath, item.oldPath));
+    return rename ? rename.newPath + filePath.substring(rename.oldPath.length) : undefined;
+}
+
+/**
+ * Map a path from after the rename back to where it was before
+ */
+function mapToOldPath(filePath: string, renames: RenamedPath[]): string | undefined {
+    const rename = renames.find(item => isInside(filePath, item.newPath));
+    return rename ? rename.oldPath + filePath.substring(rename.newPath.length) : undefined;
+}
+
+/**
+ * Find the file an import pointed at before the rename, using Robot Framework's lookup order
+ */
+function resolveBeforeRename(
+    imp: ExistingImport,
+    oldImportingFile: string,
+    content: string,
+    renames: RenamedPath[]
+): string | undefined {
+    return getImportCandidates(imp, oldImportingFile, content).find(candidate => {
+        const moved = mapToNewPath(candidate, renames);
+        if (moved) return isExistingFile(moved);
+        // Files at a new location did not exist there before the rename
+        return isExistingFile(candidate) && !mapToOldPath(candidate, renames);
+    });
+}
+
+/**
+ * Write a relative path with the separators of the original import path (`/`, `\` or `${/}`)
+ */
+function formatLikeOriginal(original: string, relativePath: string): string {
+    const posixPath = relativePath.split(path.sep).join('/');
+    if (original.includes('${/}')) return posixPath.replace(/\//g, '${/}');
+    if (original.includes('\\') && !original.includes('/')) return posixPath.replace(/\//g, '\\');
+    return posixPath;
+}
+
+/**
+ * Create the import path pointing at the new location, keeping the style of the original:
+ * module names, `${CURDIR}` or other variable prefixes, absolute paths, paths relative to the
+ * importing file or to a pythonpath root. Returns undefined when the style cannot be kept.
+ */
+function rewriteImportPath(
+    imp: ExistingImport,
+    importingFile: string,
+    oldImportingFile: string,
+    oldTarget: string,
+    newTarget: string,
+    content: string
+): string | undefined {
+    const original = imp.path.trim();
+    const expanded = expandImportVariables(original, oldImportingFile, content);
+
+    // Module names are looked up from the pythonpath, so only moves of the module itself matter
+    if (imp.type === 'Library' && isModuleName(expanded)) {
+        if (oldTarget === newTarget) return original;
+        const newInfo = getModuleNameForFile(newTarget);
+        const oldInfo = getModuleNameForFile(oldTarget);
+        if (!newInfo?.importable || !oldInfo) return undefined;
+        const className = expanded.startsWith(`${oldInfo.moduleName}.`) ? expanded.substring(oldInfo.moduleName.length) : '';
+        return newInfo.moduleName + className;
+    }
+
+    // Paths starting with a variable keep it when the new location is still below its value;
+    // relative values are resolved from the importing file like the expanded path
+    const variableMatch = original.match(/^([$%]\{[^{}]+\})(?:\$\{\/\}|[/\\])?/);
+    if (variableMatch && variableMatch[1] !== '${/}') {
+        const variable = variableMatch[1];
+        const isCurdir = variable.toUpperCase() === '${CURDIR}';
+        const base = isCurdir
+            ? path.dirname(importingFile)
+            : path.resolve(path.dirname(importingFile), expandImportVariables(variable, oldImportingFile, content).replace(/\\/g, '/'));
+        if (/[$%]\{/.test(base) || (!isCurdir && !isInside(newTarget, base))) return undefined;
+
+        const separator = original.includes('${/}') ? '${/}' : (variableMatch[0].endsWith('\\') ? '\\' : '/');
+        return variable + separator + formatLikeOriginal(original, path.relative(base, newTarget));
+    }
+
+    const normalized = expanded.replace(/\\/g, '/');
+    if (path.isAbsolute(normalized) || /^[A-Za-z]:\//.test(normalized)) {
+        return original.includes('\\') ? newTarget : newTarget.split(path.sep).join('/');
+    }
+
+    // Relative paths keep the root they were resolved against: the importing file's folder or a pythonpath root
+    const pythonPathRoot = getPythonPathRoots(oldImportingFile).find(root => path.resolve(root, normalized) === oldTarget);
+    const resolvedNextToFile = path.resolve(path.dirname(oldImportingFile), normalized) === oldTarget;
+    const base = resolvedNextToFile || !pythonPathRoot ? path.dirname(importingFile) : pythonPathRoot;
+    return formatLikeOriginal(original, path.relative(base, newTarget));
+}
+
+/**
+ * Update the imports of all workspace files after files or folders were renamed or moved.
+ * The changes are shown in the refactoring preview before they are applied.
+ */
+async function updateImportsAfterRename(event: vscode.FileRenameEvent): Promise<void> {
+    const enabled = vscode.workspace.getConfiguration('rfFilesCreator').get<boolean>('updateImportsOnRename', true);
+    if (!enabled) return;
+
+    const renames: RenamedPath[] = event.files
+        .map(file => ({ oldPath: path.normalize(file.oldUri.fsPath), newPath: path.normalize(file.newUri.fsPath) }))
+        .filter(rename => {
+            try {
+                return fs.statSync(rename.newPath).isDirectory() ||
+                    TRACKED_EXTENSIONS.includes(path.extname(rename.newPath).toLowerCase());
+            } catch {
+                return false;
+            }
+        });
+    if (renames.length === 0) return;
+
+    const edit = new vscode.WorkspaceEdit();
+    const changedFiles = new Set<string>();
+    const skipped: string[] = [];
+    let changeCount = 0;
+
+    for (const uri of await vscode.workspace.findFiles('**/*.{robot,resource}', EXCLUDED_FOLDERS)) {
+        const filePath = path.normalize(uri.fsPath);
+        const oldFilePath = mapToOldPath(filePath, renames) || filePath;
+
+        let content: string;
+        try {
+            content = readFileContent(filePath);
+        } catch {
+            continue;
+        }
+
+        for (const imp of parseExistingImports(content)) {
+            if (!imp.location?.pathToken) continue;
+
+            const oldTarget = resolveBeforeRename(imp, oldFilePath, content, renames);
+            if (!oldTarget) continue;
+            const newTarget = mapToNewPath(oldTarget, renames) || oldTarget;
+            if (newTarget === oldTarget && filePath === oldFilePath) continue;
+
+            const newImportPath = rewriteImportPath(imp, filePath, oldFilePath, oldTarget, newTarget, content);
+            if (newImportPath === undefined) {
+                skipped.push(`${vscode.workspace.asRelativePath(filePath)}: ${imp.path}`);
+                continue;
+            }
+            if (newImportPath === imp.path) continue;
+
+            edit.replace(uri, getImportPathRange(imp), newImportPath, {
+                needsConfirmation: true,
+                label: 'Update Robot Framework imports',
+                description: vscode.workspace.asRelativePath(filePath)
+            });
+            changedFiles.add(filePath);
+            changeCount++;
+        }
+    }
+
+    if (skipped.length > 0) {
+        vscode.window.showWarningMessage(`Could not update ${skipped.length} import(s) automatically: ${skipped.join(', ')}`);
+    }
+    if (changeCount === 0) return;
+
+    // Documents with unsaved changes before the update are left unsaved
+    const dirtyFiles = new Set(vscode.workspace.textDocuments
+        .filter(doc => doc.isDirty && changedFiles.has(path.normalize(doc.uri.fsPath)))
+        .map(doc => path.normalize(doc.uri.fsPath)));
+
+    // needsConfirmation opens the refactoring preview; nothing changes if it is discarded
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (applied) {
+        for (const filePath of changedFiles) {
+            if (dirtyFiles.has(filePath)) continue;
+            const document = vscode.workspace.textDocuments.find(doc => path.normalize(doc.uri.fsPath) === filePath);
+            if (document?.isDirty) await document.save();
+        }
+    }
+}
+
+/**
+ * Keep imports pointing at files that are renamed or moved in the explorer
+ */
+export function registerRenameImportUpdates(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+        vscode.workspace.onDidRenameFiles(event => {
+            updateImportsAfterRename(event).catch(error => {
+                const msg = error instanceof Error ? error.message : 'Unknown error';
+                vscode.window.showErrorMessage(`Failed to update imports: ${msg}`);
+            });
+        })
+    );
+}
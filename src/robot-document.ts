@@ -0,0 +1,349 @@
+import {
+    RobotBlock,
+    RobotDocument,
+    RobotSection,
+    RobotSectionType,
+    RobotStatement,
+    RobotToken
+} from './types';
+import { RobotLanguage, ROBOT_LANGUAGES, resolveActiveLanguages, findRobotLanguage, detectFileLanguages } from './languages';
+
+// Tokenized physical line
+interface RobotRow {
+    tokens: RobotToken[];
+    indented: boolean; // First cell is empty (body row of a test case or keyword)
+}
+
+// Normalized English section header names (singular and plural forms are both valid)
+const SECTION_HEADERS: { [name: string]: RobotSectionType } = {
+    'setting': 'settings',
+    'settings': 'settings',
+    'variable': 'variables',
+    'variables': 'variables',
+    'test case': 'testCases',
+    'test cases': 'testCases',
+    'task': 'tasks',
+    'tasks': 'tasks',
+    'keyword': 'keywords',
+    'keywords': 'keywords',
+    'comment': 'comments',
+    'comments': 'comments'
+};
+
+/**
+ * Split a space or tab separated line into tokens.
+ * Cells are separated by two or more spaces or a tab; single spaces belong to the cell.
+ */
+function tokenizeSpaceSeparatedLine(line: string, lineNumber: number): RobotToken[] {
+    const tokens: RobotToken[] = [];
+    const cellRegex = /[^ \t](?:[^ \t]| (?=[^ \t]))*/g;
+
+    let match;
+    while ((match = cellRegex.exec(line)) !== null) {
+        tokens.push({ value: match[0], line: lineNumber, column: match.index });
+    }
+
+    return tokens;
+}
+
+/**
+ * Split a pipe separated line (`| Library | Collections |`) into tokens.
+ * Empty cells are kept so the caller can detect indented rows.
+ */
+function tokenizePipeSeparatedLine(line: string, lineNumber: number): RobotToken[] {
+    const tokens: RobotToken[] = [];
+    const start = line.indexOf('|') + 1;
+    const separatorRegex = /\s+\|(?=\s|$)/g;
+    separatorRegex.lastIndex = start;
+
+    let cellStart = start;
+    let match;
+    while (cellStart < line.length) {
+        match = separatorRegex.exec(line);
+        const cellEnd = match ? match.index : line.length;
+        const rawCell = line.substring(cellStart, cellEnd);
+        const leading = rawCell.length - rawCell.trimStart().length;
+        tokens.push({ value: rawCell.trim(), line: lineNumber, column: cellStart + leading });
+
+        if (!match) break;
+        cellStart = match.index + match[0].length;
+    }
+
+    // Drop the empty cell produced by a trailing pipe
+    while (tokens.length > 0 && tokens[tokens.length - 1].value === '' &&
+           tokens[tokens.length - 1].column >= line.trimEnd().length) {
+        tokens.pop();
+    }
+
+    return tokens;
+}
+
+/**
+ * Tokenize a single physical line. Comments are removed.
+ */
+export function tokenizeRobotLine(line: string, lineNumber: number): RobotRow {
+    let tokens: RobotToken[];
+    let indented: boolean;
+
+    if (/^\s*\|(\s|$)/.test(line)) {
+        tokens = tokenizePipeSeparatedLine(line, lineNumber);
+        indented = tokens.length > 0 && tokens[0].value === '';
+        tokens = tokens.filter(token => token.value !== '');
+    } else {
+        tokens = tokenizeSpaceSeparatedLine(line, lineNumber);
+        indented = /^\s/.test(line);
+    }
+
+    // Everything from the first cell starting with `#` is a comment
+    const commentIndex = tokens.findIndex(token => token.value.startsWith('#'));
+    if (commentIndex >= 0) {
+        tokens = tokens.slice(0, commentIndex);
+    }
+
+    return { tokens, indented };
+}
+
+/**
+ * Normalize a header or setting name for lookups
+ */
+function normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Build header and setting lookup tables for the active languages
+ */
+function buildLanguageTables(languages: RobotLanguage[]): {
+    headers: { [name: string]: RobotSectionType };
+    settings: { [name: string]: string };
+} {
+    const headers: { [name: string]: RobotSectionType } = { ...SECTION_HEADERS };
+    const settings: { [name: string]: string } = {};
+    const english = ROBOT_LANGUAGES[0];
+
+    for (const language of languages) {
+        for (const key of Object.keys(language.headers) as (keyof RobotLanguage['headers'])[]) {
+            headers[normalizeName(language.headers[key])] = key;
+        }
+        for (const key of Object.keys(language.settings) as (keyof RobotLanguage['settings'])[]) {
+            const translated = language.settings[key];
+            const canonical = english.settings[key];
+            if (!translated || !canonical) continue;
+            settings[normalizeName(translated)] = canonical.toLowerCase();
+            settings[`[${normalizeName(translated)}]`] = `[${canonical.toLowerCase()}]`;
+        }
+    }
+
+    return { headers, settings };
+}
+
+/**
+ * Get the section type for a header cell such as `*** Test Case ***` or `*** Asetukset ***`
+ */
+export function getSectionType(headerCell: string, languages: RobotLanguage[] = [ROBOT_LANGUAGES[0]]): RobotSectionType {
+    const name = normalizeName(headerCell.replace(/\*/g, ' '));
+    return buildLanguageTables(languages).headers[name] || 'invalid';
+}
+
+/**
+ * Get the normalized header name of a section header row. Extra spaces inside the header split it
+ * into several cells (`***  Settings  ***`), so cells are joined up to the closing asterisks.
+ */
+function getHeaderName(tokens: RobotToken[]): string {
+    const cells: string[] = [];
+    for (const token of tokens) {
+        cells.push(token.value);
+        const name = cells.join(' ').replace(/\*/g, ' ').trim();
+        if (name && (token.value.endsWith('*') || cells.length === 1)) break;
+    }
+    return normalizeName(cells.join(' ').replace(/\*/g, ' '));
+}
+
+/**
+ * Check if a row is a continuation row (`...`)
+ */
+function isContinuationRow(row: RobotRow): boolean {
+    return row.tokens.length > 0 && row.tokens[0].value === '...';
+}
+
+/**
+ * Parse Robot Framework file content into a document model with sections,
+ * settings, variables, test cases, keywords and token positions
+ */
+export function parseRobotDocument(content: string, defaultLanguages: string[] = []): RobotDocument {
+    const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const body = bom ? content.substring(1) : content;
+    const eol = body.includes('\r\n') ? '\r\n' : '\n';
+    const lines = body.split(/\r?\n/);
+
+    // Translated headers and settings of the file and workspace languages
+    const languages = resolveActiveLanguages(lines, defaultLanguages);
+    const tables = buildLanguageTables(languages);
+    const createStatement = (tokens: RobotToken[], lineNumber: number): RobotStatement => {
+        const firstValue = tokens.length > 0 ? normalizeName(tokens[0].value) : '';
+        return {
+            name: tables.settings[firstValue] || firstValue,
+            tokens,
+            startLine: lineNumber,
+            endLine: lineNumber
+        };
+    };
+
+    const document: RobotDocument = {
+        lines,
+        eol,
+        bom,
+        languages: languages.map(language => language.code),
+        sections: [],
+        settings: [],
+        variables: [],
+        testCases: [],
+        keywords: []
+    };
+
+    let currentSection: RobotSection = {
+        type: 'implicitComment',
+        header: '',
+        headerLine: -1,
+        endLine: -1,
+        statements: []
+    };
+    document.sections.push(currentSection);
+
+    let currentBlock: RobotBlock | null = null;
+    let lastStatement: RobotStatement | null = null;
+
+    for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+        const line = lines[lineNumber];
+        const row = tokenizeRobotLine(line, lineNumber);
+
+        // Section header
+        if (!row.indented && row.tokens.length > 0 && row.tokens[0].value.startsWith('*')) {
+            currentSection = {
+                type: tables.headers[getHeaderName(row.tokens)] || 'invalid',
+                header: line.trim(),
+                headerLine: lineNumber,
+                endLine: lineNumber,
+                statements: []
+            };
+            document.sections.push(currentSection);
+            currentBlock = null;
+            lastStatement = null;
+            continue;
+        }
+
+        // Empty lines and comments belong to the section but create no statements
+        currentSection.endLine = lineNumber;
+        if (row.tokens.length === 0) continue;
+
+        const type = currentSection.type;
+        if (type === 'implicitComment' || type === 'comments' || type === 'invalid') continue;
+
+        // Continuation rows extend the previous statement
+        if (isContinuationRow(row)) {
+            if (lastStatement) {
+                lastStatement.tokens.push(...row.tokens.slice(1));
+                lastStatement.endLine = lineNumber;
+                if (currentBlock) currentBlock.endLine = lineNumber;
+            }
+            continue;
+        }
+
+        if (type === 'settings' || type === 'variables') {
+            lastStatement = createStatement(row.tokens, lineNumber);
+            currentSection.statements.push(lastStatement);
+            (type === 'settings' ? document.settings : document.variables).push(lastStatement);
+            continue;
+        }
+
+        // Test case, task and keyword sections: non-indented rows start a new block
+        if (!row.indented) {
+            const nameToken = row.tokens[0];
+            currentBlock = {
+                name: nameToken.value,
+                nameToken,
+                startLine: lineNumber,
+                endLine: lineNumber,
+                statements: []
+            };
+            (type === 'keywords' ? document.keywords : document.testCases).push(currentBlock);
+            lastStatement = null;
+
+            // Data after the name on the same row is the first body statement
+            if (row.tokens.length > 1) {
+                lastStatement = createStatement(row.tokens.slice(1), lineNumber);
+                currentBlock.statements.push(lastStatement);
+                currentSection.statements.push(lastStatement);
+            }
+            continue;
+        }
+
+        if (currentBlock) {
+            lastStatement = createStatement(row.tokens, lineNumber);
+            currentBlock.statements.push(lastStatement);
+            currentBlock.endLine = lineNumber;
+            currentSection.statements.push(lastStatement);
+        }
+    }
+
+    return document;
+}
+
+/**
+ * Get the Settings sections of a document (normally zero or one)
+ */
+export function getSettingsSections(document: RobotDocument): RobotSection[] {
+    return document.sections.filter(section => section.type === 'settings');
+}
+
+/**
+ * Get the setting name of a statement in lower case (e.g. `library`, `[arguments]`)
+ */
+export function getStatementName(statement: RobotStatement): string {
+    return statement.name;
+}
+
+/**
+ * Check if a normalized header name is a section header of a language
+ */
+function isLanguageHeader(language: RobotLanguage, name: string): boolean {
+    if (language === ROBOT_LANGUAGES[0] && SECTION_HEADERS[name]) return true;
+    return Object.values(language.headers).some(header => normalizeName(header) === name);
+}
+
+/**
+ * Check if a normalized setting name is a setting of a language
+ */
+function isLanguageSetting(language: RobotLanguage, name: string): boolean {
+    return Object.values(language.settings).some(setting => !!setting && normalizeName(setting) === name);
+}
+
+/**
+ * Get the primary language of a document: the first `language:` marker, else the language its
+ * setting names and section headers are written in, else the workspace default, else English
+ */
+export function getPrimaryLanguage(document: RobotDocument): RobotLanguage {
+    const english = ROBOT_LANGUAGES[0];
+    const markerLanguage = detectFileLanguages(document.lines)[0];
+    if (markerLanguage) return markerLanguage;
+
+    // English is checked first, as some translations share names with it (Bosnian `Test Cases`)
+    const candidates = [english, ...document.languages
+        .map(code => findRobotLanguage(code))
+        .filter((language): language is RobotLanguage => !!language && language !== english)];
+
+    // Settings are what gets rewritten, so their names decide first, then the section headers
+    for (const statement of document.settings) {
+        const name = normalizeName(statement.tokens[0].value);
+        const language = candidates.find(candidate => isLanguageSetting(candidate, name));
+        if (language) return language;
+    }
+    for (const section of document.sections) {
+        if (section.headerLine < 0 || section.type === 'invalid') continue;
+        const name = getHeaderName(tokenizeRobotLine(document.lines[section.headerLine], section.headerLine).tokens);
+        const language = candidates.find(candidate => isLanguageHeader(candidate, name));
+        if (language) return language;
+    }
+
+    return findRobotLanguage(document.languages[0]) || english;
+}
@@ -0,0 +1,398 @@
+import { ExtractedKeyword } from './types';
+import { parsePythonSignature } from './python-parser';
+import { formatKeywordArguments } from './keyword-arguments';
+
+// Keyword entry: [name, Python style argument signature, short documentation]
+type StandardKeyword = [string, string, string];
+
+// Offline keyword metadata for the libraries shipped with Robot Framework 7
+const STANDARD_LIBRARIES: { [library: string]: StandardKeyword[] } = {
+    BuiltIn: [
+        ['Call Method', 'object, method_name, *args, **kwargs', 'Calls the named method of the given object with the provided arguments.'],
+        ['Catenate', '*items', 'Catenates the given items together and returns the resulted string.\nUse `SEPARATOR=<sep>` as the first item to change the default single space separator.'],
+        ['Comment', '*messages', 'Displays the given messages in the log file as keyword arguments.'],
+        ['Continue For Loop', '', 'Skips the current FOR loop iteration and continues from the next. Deprecated, use `CONTINUE` instead.'],
+        ['Continue For Loop If', 'condition', 'Skips the current FOR loop iteration if the condition is true. Deprecated, use `IF` and `CONTINUE` instead.'],
+        ['Convert To Binary', 'item, base=None, prefix=None, length=None', 'Converts the given item to a binary string.'],
+        ['Convert To Boolean', 'item', 'Converts the given item to Boolean true or false.'],
+        ['Convert To Bytes', 'input, input_type=text', 'Converts the given input to bytes according to the input type.'],
+        ['Convert To Hex', 'item, base=None, prefix=None, length=None, lowercase=False', 'Converts the given item to a hexadecimal string.'],
+        ['Convert To Integer', 'item, base=None', 'Converts the given item to an integer number.'],
+        ['Convert To Number', 'item, precision=None', 'Converts the given item to a floating point number.'],
+        ['Convert To Octal', 'item, base=None, prefix=None, length=None', 'Converts the given item to an octal string.'],
+        ['Convert To String', 'item', 'Converts the given item to a Unicode string.'],
+        ['Create Dictionary', '*items', 'Creates and returns a dictionary based on the given items.\nItems are given using `key=value` syntax.'],
+        ['Create List', '*items', 'Returns a list containing the given items.'],
+        ['Evaluate', 'expression, modules=None, namespace=None', 'Evaluates the given expression in Python and returns the result.'],
+        ['Exit For Loop', '', 'Stops executing the enclosing FOR loop. Deprecated, use `BREAK` instead.'],
+        ['Exit For Loop If', 'condition', 'Stops executing the enclosing FOR loop if the condition is true. Deprecated, use `IF` and `BREAK` instead.'],
+        ['Fail', 'msg=None, *tags', 'Fails the test with the given message and optionally alters its tags.'],
+        ['Fatal Error', 'msg=None', 'Stops the whole test execution.'],
+        ['Get Count', 'container, item', 'Returns and logs how many times the item is found from the container.'],
+        ['Get Length', 'item', 'Returns and logs the length of the given item as an integer.'],
+        ['Get Library Instance', 'name=None, all=False', 'Returns the currently active instance of the specified library.'],
+        ['Get Time', 'format=timestamp, time_=NOW', 'Returns the given time in the requested format.'],
+        ['Get Variable Value', 'name, default=None', 'Returns the variable value or the default if the variable does not exist.'],
+        ['Get Variables', 'no_decoration=False', 'Returns a dictionary containing all variables in the current scope.'],
+        ['Import Library', 'name, *args', 'Imports a library with the given name and optional arguments.'],
+        ['Import Resource', 'path', 'Imports a resource file with the given path.'],
+        ['Import Variables', 'path, *args', 'Imports a variable file with the given path and optional arguments.'],
+        ['Keyword Should Exist', 'name, msg=None', 'Fails unless the given keyword exists in the current scope.'],
+        ['Length Should Be', 'item, length, msg=None', 'Verifies that the length of the given item is correct.'],
+        ['Log', 'message, level=INFO, html=False, console=False, repr=DEPRECATED, formatter=str', 'Logs the given message with the given level.'],
+        ['Log Many', '*messages', 'Logs the given messages as separate entries using the INFO level.'],
+        ['Log To Console', 'message, stream=STDOUT, no_newline=False, format=', 'Logs the given message to the console.'],
+        ['Log Variables', 'level=INFO', 'Logs all variables in the current scope with the given log level.'],
+        ['No Operation', '', 'Does absolutely nothing.'],
+        ['Pass Execution', 'message, *tags', 'Skips rest of the current test, setup, or teardown with PASS status.'],
+        ['Pass Execution If', 'condition, message, *tags', 'Conditionally skips rest of the current test, setup, or teardown with PASS status.'],
+        ['Regexp Escape', '*patterns', 'Returns each argument string escaped for use as a regular expression.'],
+        ['Reload Library', 'name_or_instance', 'Rechecks what keywords the specified library provides.'],
+        ['Remove Tags', '*tags', 'Removes the given tags from the current test or all tests in a suite.'],
+        ['Repeat Keyword', 'repeat, name, *args', 'Executes the specified keyword multiple times or for the given duration.'],
+        ['Replace Variables', 'text', 'Replaces variables in the given text with their current values.'],
+        ['Return From Keyword', '*return_values', 'Returns from the enclosing user keyword. Deprecated, use `RETURN` instead.'],
+        ['Return From Keyword If', 'condition, *return_values', 'Returns from the enclosing user keyword if the condition is true. Deprecated, use `IF` and `RETURN` instead.'],
+        ['Run Keyword', 'name, *args', 'Executes the given keyword with the given arguments.'],
+        ['Run Keyword And Continue On Failure', 'name, *args', 'Runs the keyword and continues execution even if a failure occurs.'],
+        ['Run Keyword And Expect Error', 'expected_error, name, *args', 'Runs the keyword and checks that the expected error occurred.'],
+        ['Run Keyword And Ignore Error', 'name, *args', 'Runs the given keyword and ignores a possible error.\nReturns the status (`PASS` or `FAIL`) and the return value or error message.'],
+        ['Run Keyword And Return', 'name, *args', 'Runs the specified keyword and returns from the enclosing user keyword.'],
+        ['Run Keyword And Return If', 'condition, name, *args', 'Runs the specified keyword and returns from the enclosing user keyword if the condition is true.'],
+        ['Run Keyword And Return Status', 'name, *args', 'Runs the given keyword and returns the status as a Boolean value.'],
+        ['Run Keyword And Warn On Failure', 'name, *args', 'Runs the specified keyword and logs a warning if it fails.'],
+        ['Run Keyword If', 'condition, name, *args', 'Runs the given keyword if the condition is true. Consider using `IF` syntax instead.'],
+        ['Run Keyword If All Tests Passed', 'name, *args', 'Runs the given keyword if all tests passed. Usable only in suite teardown.'],
+        ['Run Keyword If Any Tests Failed', 'name, *args', 'Runs the given keyword if one or more tests failed. Usable only in suite teardown.'],
+        ['Run Keyword If Test Failed', 'name, *args', 'Runs the given keyword if the test failed. Usable only in test teardown.'],
+        ['Run Keyword If Test Passed', 'name, *args', 'Runs the given keyword if the test passed. Usable only in test teardown.'],
+        ['Run Keyword If Timeout Occurred', 'name, *args', 'Runs the given keyword if either a test or a keyword timeout has occurred.'],
+        ['Run Keyword Unless', 'condition, name, *args', 'Runs the given keyword if the condition is false. Deprecated, use `IF` syntax instead.'],
+        ['Run Keywords', '*keywords', 'Executes all the given keywords in a sequence.\nKeywords with arguments are separated using `AND`.'],
+        ['Set Global Variable', 'name, *values', 'Makes a variable available globally in all tests and suites.'],
+        ['Set Library Search Order', '*search_order', 'Sets the resolution order to use when a keyword name matches multiple libraries.'],
+        ['Set Local Variable', 'name, *values', 'Makes a variable available in the current local scope.'],
+        ['Set Log Level', 'level', 'Sets the log threshold to the specified level and returns the old level.'],
+        ['Set Suite Documentation', 'doc, append=False, top=False', 'Sets documentation for the current test suite.'],
+        ['Set Suite Metadata', 'name, value, append=False, top=False', 'Sets metadata for the current test suite.'],
+        ['Set Suite Variable', 'name, *values, children=False', 'Makes a variable available everywhere within the scope of the current suite.'],
+        ['Set Tags', '*tags', 'Adds the given tags to the current test or all tests in a suite.'],
+        ['Set Task Variable', 'name, *values', 'Makes a variable available everywhere within the scope of the current task.'],
+        ['Set Test Documentation', 'doc, append=False', 'Sets documentation for the current test case.'],
+        ['Set Test Message', 'message, append=False, separator= ', 'Sets message for the current test case.'],
+        ['Set Test Variable', 'name, *values', 'Makes a variable available everywhere within the scope of the current test.'],
+        ['Set Variable', '*values', 'Returns the given values which can then be assigned to variables.'],
+        ['Set Variable If', 'condition, *values', 'Sets variable based on the given condition.'],
+        ['Should Be Empty', 'item, msg=None', 'Verifies that the given item is empty.'],
+        ['Should Be Equal', 'first, second, msg=None, values=True, ignore_case=False, formatter=str, strip_spaces=False, collapse_spaces=False, type=None, types=None', 'Fails if the given objects are unequal.'],
+        ['Should Be Equal As Integers', 'first, second, msg=None, values=True, base=None', 'Fails if objects are unequal after converting them to integers.'],
+        ['Should Be Equal As Numbers', 'first, second, msg=None, values=True, precision=6', 'Fails if objects are unequal after converting them to real numbers.'],
+        ['Should Be Equal As Strings', 'first, second, msg=None, values=True, ignore_case=False, strip_spaces=False, formatter=str, collapse_spaces=False', 'Fails if objects are unequal after converting them to strings.'],
+        ['Should Be True', 'condition, msg=None', 'Fails if the given condition is not true.'],
+        ['Should Contain', 'container, item, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if container does not contain item one or more times.'],
+        ['Should Contain Any', 'container, *items, **configuration', 'Fails if container does not contain any of the items.'],
+        ['Should Contain X Times', 'container, item, count, msg=None, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if container does not contain item exactly count times.'],
+        ['Should End With', 'str1, str2, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if the string str1 does not end with the string str2.'],
+        ['Should Match', 'string, pattern, msg=None, values=True, ignore_case=False', 'Fails if the given string does not match the given glob pattern.'],
+        ['Should Match Regexp', 'string, pattern, msg=None, values=True, flags=None', 'Fails if string does not match pattern as a regular expression.'],
+        ['Should Not Be Empty', 'item, msg=None', 'Verifies that the given item is not empty.'],
+        ['Should Not Be Equal', 'first, second, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if the given objects are equal.'],
+        ['Should Not Be Equal As Integers', 'first, second, msg=None, values=True, base=None', 'Fails if objects are equal after converting them to integers.'],
+        ['Should Not Be Equal As Numbers', 'first, second, msg=None, values=True, precision=6', 'Fails if objects are equal after converting them to real numbers.'],
+        ['Should Not Be Equal As Strings', 'first, second, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if objects are equal after converting them to strings.'],
+        ['Should Not Be True', 'condition, msg=None', 'Fails if the given condition is true.'],
+        ['Should Not Contain', 'container, item, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if container contains item one or more times.'],
+        ['Should Not Contain Any', 'container, *items, **configuration', 'Fails if container contains one or more of the items.'],
+        ['Should Not End With', 'str1, str2, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if the string str1 ends with the string str2.'],
+        ['Should Not Match', 'string, pattern, msg=None, values=True, ignore_case=False', 'Fails if the given string matches the given glob pattern.'],
+        ['Should Not Match Regexp', 'string, pattern, msg=None, values=True, flags=None', 'Fails if string matches pattern as a regular expression.'],
+        ['Should Not Start With', 'str1, str2, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if the string str1 starts with the string str2.'],
+        ['Should Start With', 'str1, str2, msg=None, values=True, ignore_case=False, strip_spaces=False, collapse_spaces=False', 'Fails if the string str1 does not start with the string str2.'],
+        ['Skip', 'msg=Skipped with Skip keyword.', 'Skips the rest of the current test.'],
+        ['Skip If', 'condition, msg=None', 'Skips the rest of the current test if the condition is true.'],
+        ['Sleep', 'time_, reason=None', 'Pauses the test executed for the given time.'],
+        ['Variable Should Exist', 'name, msg=None', 'Fails unless the given variable exists within the current scope.'],
+        ['Variable Should Not Exist', 'name, msg=None', 'Fails if the given variable exists within the current scope.'],
+        ['Wait Until Keyword Succeeds', 'retry, retry_interval, name, *args', 'Runs the specified keyword and retries if it fails.']
+    ],
+    Collections: [
+        ['Append To List', 'list_, *values', 'Adds values to the end of list.'],
+        ['Combine Lists', '*lists', 'Combines the given lists together and returns the result.'],
+        ['Convert To Dictionary', 'item', 'Converts the given item to a Python dict type.'],
+        ['Convert To List', 'item', 'Converts the given item to a Python list type.'],
+        ['Copy Dictionary', 'dictionary, deepcopy=False', 'Returns a copy of the given dictionary.'],
+        ['Copy List', 'list_, deepcopy=False', 'Returns a copy of the given list.'],
+        ['Count Values In List', 'list_, value, start=0, end=None', 'Returns the number of occurrences of the given value in list.'],
+        ['Dictionaries Should Be Equal', 'dict1, dict2, msg=None, values=True, ignore_keys=None, ignore_case=False', 'Fails if the given dictionaries are not equal.'],
+        ['Dictionary Should Contain Item', 'dictionary, key, value, msg=None, ignore_case=False', 'An item of key / value must be found in a dictionary.'],
+        ['Dictionary Should Contain Key', 'dictionary, key, msg=None, ignore_case=False', 'Fails if key is not found from dictionary.'],
+        ['Dictionary Should Contain Sub Dictionary', 'dict1, dict2, msg=None, values=True, ignore_case=False', 'Fails unless all items in dict2 are found from dict1.'],
+        ['Dictionary Should Contain Value', 'dictionary, value, msg=None, ignore_case=False', 'Fails if value is not found from dictionary.'],
+        ['Dictionary Should Not Contain Key', 'dictionary, key, msg=None, ignore_case=False', 'Fails if key is found from dictionary.'],
+        ['Dictionary Should Not Contain Value', 'dictionary, value, msg=None, ignore_case=False', 'Fails if value is found from dictionary.'],
+        ['Get Dictionary Items', 'dictionary, sort_keys=True', 'Returns items of the given dictionary as a list.'],
+        ['Get Dictionary Keys', 'dictionary, sort_keys=True', 'Returns keys of the given dictionary as a list.'],
+        ['Get Dictionary Values', 'dictionary, sort_keys=True', 'Returns values of the given dictionary as a list.'],
+        ['Get From Dictionary', 'dictionary, key, default=', 'Returns a value from the given dictionary based on the given key.'],
+        ['Get From List', 'list_, index', 'Returns the value specified with an index from list.'],
+        ['Get Index From List', 'list_, value, start=0, end=None', 'Returns the index of the first occurrence of the value on the list.'],
+        ['Get Match Count', 'list, pattern, case_insensitive=None, whitespace_insensitive=None, ignore_case=False, ignore_whitespace=False', 'Returns the count of matches to pattern in list.'],
+        ['Get Matches', 'list, pattern, case_insensitive=None, whitespace_insensitive=None, ignore_case=False, ignore_whitespace=False', 'Returns a list of matches to pattern in list.'],
+        ['Get Slice From List', 'list_, start=0, end=None', 'Returns a slice of the given list between start and end indexes.'],
+        ['Insert Into List', 'list_, index, value', 'Inserts value into list to the position specified with index.'],
+        ['Keep In Dictionary', 'dictionary, *keys', 'Keeps the given keys in the dictionary and removes all other.'],
+        ['List Should Contain Sub List', 'list1, list2, msg=None, values=True, ignore_case=False', 'Fails if not all elements in list2 are found in list1.'],
+        ['List Should Contain Value', 'list_, value, msg=None, ignore_case=False', 'Fails if the value is not found from list.'],
+        ['List Should Not Contain Duplicates', 'list_, msg=None, ignore_case=False', 'Fails if any element in the list is found from it more than once.'],
+        ['List Should Not Contain Value', 'list_, value, msg=None, ignore_case=False', 'Fails if the value is found from list.'],
+        ['Lists Should Be Equal', 'list1, list2, msg=None, values=True, names=None, ignore_order=False, ignore_case=False', 'Fails if given lists are unequal.'],
+        ['Log Dictionary', 'dictionary, level=INFO', 'Logs the size and contents of the dictionary using the given level.'],
+        ['Log List', 'list_, level=INFO', 'Logs the length and contents of the list using the given level.'],
+        ['Pop From Dictionary', 'dictionary, key, default=', 'Pops the given key from the dictionary and returns its value.'],
+        ['Remove Duplicates', 'list_', 'Returns a list without duplicates based on the given list.'],
+        ['Remove From Dictionary', 'dictionary, *keys', 'Removes the given keys from the dictionary.'],
+        ['Remove From List', 'list_, index', 'Removes and returns the value specified with an index from list.'],
+        ['Remove Values From List', 'list_, *values', 'Removes all occurrences of given values from list.'],
+        ['Reverse List', 'list_', 'Reverses the given list in place.'],
+        ['Set List Value', 'list_, index, value', 'Sets the value of list specified by index to the given value.'],
+        ['Set To Dictionary', 'dictionary, *key_value_pairs, **items', 'Adds the given key_value_pairs and items to the dictionary.'],
+        ['Should Contain Match', 'list, pattern, msg=None, case_insensitive=None, whitespace_insensitive=None, ignore_case=False, ignore_whitespace=False', 'Fails if pattern is not found in list.'],
+        ['Should Not Contain Match', 'list, pattern, msg=None, case_insensitive=None, whitespace_insensitive=None, ignore_case=False, ignore_whitespace=False', 'Fails if pattern is found in list.'],
+        ['Sort List', 'list_', 'Sorts the given list in place.']
+    ],
+    String: [
+        ['Convert To Lower Case', 'string', 'Converts string to lower case.'],
+        ['Convert To Title Case', 'string, exclude=None', 'Converts string to title case.'],
+        ['Convert To Upper Case', 'string', 'Converts string to upper case.'],
+        ['Decode Bytes To String', 'bytes, encoding, errors=strict', 'Decodes the given bytes to a string using the given encoding.'],
+        ['Encode String To Bytes', 'string, encoding, errors=strict', 'Encodes the given string to bytes using the given encoding.'],
+        ['Fetch From Left', 'string, marker', 'Returns contents of the string before the first occurrence of marker.'],
+        ['Fetch From Right', 'string, marker', 'Returns contents of the string after the last occurrence of marker.'],
+        ['Format String', 'template, *positional, **named', 'Formats a template using the given positional and named arguments.'],
+        ['Generate Random String', 'length=8, chars=[LETTERS][NUMBERS]', 'Generates a string with a desired length from the given chars.'],
+        ['Get Line', 'string, line_number', 'Returns the specified line from the given string.'],
+        ['Get Line Count', 'string', 'Returns and logs the number of lines in the given string.'],
+        ['Get Lines Containing String', 'string, pattern, case_insensitive=None, ignore_case=False', 'Returns lines of the given string that contain the pattern.'],
+        ['Get Lines Matching Pattern', 'string, pattern, case_insensitive=None, ignore_case=False', 'Returns lines of the given string that match the glob pattern.'],
+        ['Get Lines Matching Regexp', 'string, pattern, partial_match=False, flags=None', 'Returns lines of the given string that match the regexp pattern.'],
+        ['Get Regexp Matches', 'string, pattern, *groups, flags=None', 'Returns a list of all non-overlapping matches in the given string.'],
+        ['Get Substring', 'string, start, end=None', 'Returns a substring from start index to end index.'],
+        ['Remove String', 'string, *removables', 'Removes all removables from the given string.'],
+        ['Remove String Using Regexp', 'string, *patterns, flags=None', 'Removes patterns from the given string.'],
+        ['Replace String', 'string, search_for, replace_with, count=-1', 'Replaces search_for in the given string with replace_with.'],
+        ['Replace String Using Regexp', 'string, pattern, replace_with, count=-1, flags=None', 'Replaces pattern in the given string with replace_with.'],
+        ['Should Be Byte String', 'item, msg=None', 'Fails if the given item is not a byte string.'],
+        ['Should Be Lower Case', 'string, msg=None', 'Fails if the given string is not in lower case.'],
+        ['Should Be String', 'item, msg=None', 'Fails if the given item is not a string.'],
+        ['Should Be Title Case', 'string, msg=None, exclude=None', 'Fails if given string is not title.'],
+        ['Should Be Unicode String', 'item, msg=None', 'Fails if the given item is not a Unicode string.'],
+        ['Should Be Upper Case', 'string, msg=None', 'Fails if the given string is not in upper case.'],
+        ['Should Not Be String', 'item, msg=None', 'Fails if the given item is a string.'],
+        ['Split String', 'string, separator=None, max_split=-1', 'Splits the string using separator as a delimiter string.'],
+        ['Split String From Right', 'string, separator=None, max_split=-1', 'Splits the string using separator starting from right.'],
+        ['Split String To Characters', 'string', 'Splits the given string to characters.'],
+        ['Split To Lines', 'string, start=0, end=None', 'Splits the given string to lines.'],
+        ['Strip String', 'string, mode=both, characters=None', 'Remove leading and/or trailing whitespaces from the given string.']
+    ],
+    OperatingSystem: [
+        ['Append To Environment Variable', 'name, *values, **config', 'Appends given values to environment variable name.'],
+        ['Append To File', 'path, content, encoding=UTF-8', 'Appends the given content to the specified file.'],
+        ['Copy Directory', 'source, destination', 'Copies the source directory into the destination.'],
+        ['Copy File', 'source, destination', 'Copies the source file into the destination.'],
+        ['Copy Files', '*sources_and_destination', 'Copies specified files to the target directory.'],
+        ['Count Directories In Directory', 'path, pattern=None', 'Counts directories in the given directory.'],
+        ['Count Files In Directory', 'path, pattern=None', 'Counts files in the given directory.'],
+        ['Count Items In Directory', 'path, pattern=None', 'Counts files and directories in the given directory.'],
+        ['Create Binary File', 'path, content', 'Creates a binary file with the given content.'],
+        ['Create Directory', 'path', 'Creates the specified directory.'],
+        ['Create File', 'path, content=, encoding=UTF-8', 'Creates a file with the given content and encoding.'],
+        ['Directory Should Be Empty', 'path, msg=None', 'Fails unless the specified directory is empty.'],
+        ['Directory Should Exist', 'path, msg=None', 'Fails unless the given path points to an existing directory.'],
+        ['Directory Should Not Be Empty', 'path, msg=None', 'Fails if the specified directory is empty.'],
+        ['Directory Should Not Exist', 'path, msg=None', 'Fails if the given path points to an existing directory.'],
+        ['Empty Directory', 'path', 'Deletes all the content from the given directory.'],
+        ['Environment Variable Should Be Set', 'name, msg=None', 'Fails if the specified environment variable is not set.'],
+        ['Environment Variable Should Not Be Set', 'name, msg=None', 'Fails if the specified environment variable is set.'],
+        ['File Should Be Empty', 'path, msg=None', 'Fails unless the specified file is empty.'],
+        ['File Should Exist', 'path, msg=None', 'Fails unless the given path points to an existing file.'],
+        ['File Should Not Be Empty', 'path, msg=None', 'Fails if the specified file is empty.'],
+        ['File Should Not Exist', 'path, msg=None', 'Fails if the given path points to an existing file.'],
+        ['Get Binary File', 'path', 'Returns the contents of a specified file.'],
+        ['Get Environment Variable', 'name, default=None', 'Returns the value of an environment variable with the given name.'],
+        ['Get Environment Variables', '', 'Returns currently available environment variables as a dictionary.'],
+        ['Get File', 'path, encoding=UTF-8, encoding_errors=strict', 'Returns the contents of a specified file.'],
+        ['Get File Size', 'path', 'Returns and logs file size as an integer in bytes.'],
+        ['Get Modified Time', 'path, format=timestamp', 'Returns the last modification time of a file or directory.'],
+        ['Grep File', 'path, pattern, encoding=UTF-8, encoding_errors=strict, regexp=False', 'Returns the lines of the specified file that match the pattern.'],
+        ['Join Path', 'base, *parts', 'Joins the given path part(s) to the given base path.'],
+        ['Join Paths', 'base, *paths', 'Joins given paths with base and returns resulted paths.'],
+        ['List Directories In Directory', 'path, pattern=None, absolute=False', 'Wrapper for List Directory that returns only directories.'],
+        ['List Directory', 'path, pattern=None, absolute=False', 'Returns and logs items in a directory, optionally filtered with pattern.'],
+        ['List Files In Directory', 'path, pattern=None, absolute=False', 'Wrapper for List Directory that returns only files.'],
+        ['Log Environment Variables', 'level=INFO', 'Logs all environment variables using the given log level.'],
+        ['Log File', 'path, encoding=UTF-8, encoding_errors=strict', 'Wrapper for Get File that also logs the returned file.'],
+        ['Move Directory', 'source, destination', 'Moves the source directory into a destination.'],
+        ['Move File', 'source, destination', 'Moves the source file into the destination.'],
+        ['Move Files', '*sources_and_destination', 'Moves specified files to the target directory.'],
+        ['Normalize Path', 'path, case_normalize=False', 'Normalizes the given path.'],
+        ['Remove Directory', 'path, recursive=False', 'Removes the directory pointed to by the given path.'],
+        ['Remove Environment Variable', '*names', 'Deletes the specified environment variable.'],
+        ['Remove File', 'path', 'Removes a file with the given path.'],
+        ['Remove Files', '*paths', 'Uses Remove File to remove multiple files one-by-one.'],
+        ['Run', 'command', 'Runs the given command in the system and returns the output.'],
+        ['Run And Return Rc', 'command', 'Runs the given command in the system and returns the return code.'],
+        ['Run And Return Rc And Output', 'command', 'Runs the given command in the system and returns the RC and output.'],
+        ['Set Environment Variable', 'name, value', 'Sets an environment variable to a specified value.'],
+        ['Set Modified Time', 'path, mtime', 'Sets the file modification and access times.'],
+        ['Should Exist', 'path, msg=None', 'Fails unless the given path (file or directory) exists.'],
+        ['Should Not Exist', 'path, msg=None', 'Fails if the given path (file or directory) exists.'],
+        ['Split Extension', 'path', 'Splits the extension from the given path.'],
+        ['Split Path', 'path', 'Splits the given path from the last path separator.'],
+        ['Touch', 'path', 'Emulates the UNIX touch command.'],
+        ['Wait Until Created', 'path, timeout=1 minute', 'Waits until the given file or directory is created.'],
+        ['Wait Until Removed', 'path, timeout=1 minute', 'Waits until the given file or directory is removed.']
+    ],
+    DateTime: [
+        ['Add Time To Date', 'date, time, result_format=timestamp, exclude_millis=False, date_format=None', 'Adds time to date and returns the resulting date.'],
+        ['Add Time To Time', 'time1, time2, result_format=number, exclude_millis=False', 'Adds time to another time and returns the resulting time.'],
+        ['Convert Date', 'date, result_format=timestamp, exclude_millis=False, date_format=None', 'Converts between supported date formats.'],
+        ['Convert Time', 'time, result_format=number, exclude_millis=False', 'Converts between supported time formats.'],
+        ['Get Current Date', 'time_zone=local, increment=0, result_format=timestamp, exclude_millis=False', 'Returns current local or UTC time with an optional increment.'],
+        ['Subtract Date From Date', 'date1, date2, result_format=number, exclude_millis=False, date1_format=None, date2_format=None', 'Subtracts date from another date and returns time between.'],
+        ['Subtract Time From Date', 'date, time, result_format=timestamp, exclude_millis=False, date_format=None', 'Subtracts time from date and returns the resulting date.'],
+        ['Subtract Time From Time', 'time1, time2, result_format=number, exclude_millis=False', 'Subtracts time from another time and returns the resulting time.']
+    ],
+    Process: [
+        ['Get Process Id', 'handle=None', 'Returns the process ID (pid) of the process as an integer.'],
+        ['Get Process Object', 'handle=None', 'Return the underlying subprocess.Popen object.'],
+        ['Get Process Result', 'handle=None, rc=False, stdout=False, stderr=False, stdout_path=False, stderr_path=False', 'Returns the specified result object or some of its attributes.'],
+        ['Is Process Running', 'handle=None', 'Checks is the process running or not.'],
+        ['Join Command Line', '*args', 'Joins arguments into one command line string.'],
+        ['Process Should Be Running', 'handle=None, error_message=Process is not running.', 'Verifies that the process is running.'],
+        ['Process Should Be Stopped', 'handle=None, error_message=Process is running.', 'Verifies that the process is not running.'],
+        ['Run Process', 'command, *arguments, cwd=None, shell=False, stdout=None, stderr=None, stdin=None, output_encoding=CONSOLE, alias=None, timeout=None, on_timeout=terminate, env=None, **env_extra', 'Runs a process and waits for it to complete.\nReturns a result object containing the return code and output.'],
+        ['Send Signal To Process', 'signal, handle=None, group=False', 'Sends the given signal to the specified process.'],
+        ['Split Command Line', 'args, escaping=False', 'Splits command line string into a list of arguments.'],
+        ['Start Process', 'command, *arguments, cwd=None, shell=False, stdout=None, stderr=None, stdin=PIPE, output_encoding=CONSOLE, alias=None, env=None, **env_extra', 'Starts a new process on background.\nReturns a handle to the started process.'],
+        ['Switch Process', 'handle', 'Makes the specified process the current active process.'],
+        ['Terminate All Processes', 'kill=False', 'Terminates all still running processes started by this library.'],
+        ['Terminate Process', 'handle=None, kill=False', 'Stops the process gracefully or forcefully.'],
+        ['Wait For Process', 'handle=None, timeout=None, on_timeout=continue', 'Waits for the process to complete or to reach the given timeout.']
+    ],
+    XML: [
+        ['Add Element', 'source, element, index=None, xpath=.', 'Adds a child element to the specified element.'],
+        ['Clear Element', 'source, xpath=., clear_tail=False', 'Clears the contents of the specified element.'],
+        ['Copy Element', 'source, xpath=.', 'Returns a copy of the specified element.'],
+        ['Element Attribute Should Be', 'source, name, expected, xpath=., message=None', 'Verifies that the specified attribute is expected.'],
+        ['Element Attribute Should Match', 'source, name, pattern, xpath=., message=None', 'Verifies that the specified attribute matches expected.'],
+        ['Element Should Exist', 'source, xpath=., message=None', 'Verifies that one or more element match the given xpath.'],
+        ['Element Should Not Exist', 'source, xpath=., message=None', 'Verifies that no element match the given xpath.'],
+        ['Element Should Not Have Attribute', 'source, name, xpath=., message=None', 'Verifies that the specified element does not have attribute name.'],
+        ['Element Text Should Be', 'source, expected, xpath=., normalize_whitespace=False, message=None', 'Verifies that the text of the specified element is expected.'],
+        ['Element Text Should Match', 'source, pattern, xpath=., normalize_whitespace=False, message=None', 'Verifies that the text of the specified element matches expected.'],
+        ['Element To String', 'source, xpath=., encoding=None', 'Returns the string representation of the specified element.'],
+        ['Elements Should Be Equal', 'source, expected, exclude_children=False, normalize_whitespace=False, sort_children=False', 'Verifies that the given source element is equal to expected.'],
+        ['Elements Should Match', 'source, expected, exclude_children=False, normalize_whitespace=False, sort_children=False', 'Verifies that the given source element matches expected.'],
+        ['Evaluate Xpath', 'source, expression, context=.', 'Evaluates the given xpath expression and returns results.'],
+        ['Get Child Elements', 'source, xpath=.', 'Returns the child elements of the specified element as a list.'],
+        ['Get Element', 'source, xpath=.', 'Returns an element in the source matching the xpath.'],
+        ['Get Element Attribute', 'source, name, xpath=., default=None', 'Returns the named attribute of the specified element.'],
+        ['Get Element Attributes', 'source, xpath=.', 'Returns all attributes of the specified element.'],
+        ['Get Element Count', 'source, xpath=.', 'Returns and logs how many elements the given xpath matches.'],
+        ['Get Element Text', 'source, xpath=., normalize_whitespace=False', 'Returns all text of the element, possibly whitespace normalized.'],
+        ['Get Elements', 'source, xpath', 'Returns a list of elements in the source matching the xpath.'],
+        ['Get Elements Texts', 'source, xpath, normalize_whitespace=False', 'Returns text of all elements matching xpath as a list.'],
+        ['Log Element', 'source, level=INFO, xpath=.', 'Logs the string representation of the specified element.'],
+        ['Parse XML', 'source, keep_clark_notation=False, strip_namespaces=False', 'Parses the given XML file or string into an element structure.'],
+        ['Remove Element', 'source, xpath=, remove_tail=False', 'Removes the element matching xpath from the source structure.'],
+        ['Remove Element Attribute', 'source, name, xpath=.', 'Removes attribute name from the specified element.'],
+        ['Remove Element Attributes', 'source, xpath=.', 'Removes all attributes from the specified element.'],
+        ['Remove Elements', 'source, xpath=, remove_tail=False', 'Removes all elements matching xpath from the source structure.'],
+        ['Remove Elements Attribute', 'source, name, xpath=.', 'Removes attribute name from the specified elements.'],
+        ['Remove Elements Attributes', 'source, xpath=.', 'Removes all attributes from the specified elements.'],
+        ['Save XML', 'source, path, encoding=UTF-8', 'Saves the given element to the specified file.'],
+        ['Set Element Attribute', 'source, name, value, xpath=.', 'Sets attribute name of the specified element to value.'],
+        ['Set Element Tag', 'source, tag, xpath=.', 'Sets the tag of the specified element.'],
+        ['Set Element Text', 'source, text=None, tail=None, xpath=.', 'Sets text and/or tail text of the specified element.'],
+        ['Set Elements Attribute', 'source, name, value, xpath=.', 'Sets attribute name of the specified elements to value.'],
+        ['Set Elements Tag', 'source, tag, xpath=.', 'Sets the tag of the specified elements.'],
+        ['Set Elements Text', 'source, text=None, tail=None, xpath=.', 'Sets text and/or tail text of the specified elements.']
+    ],
+    Screenshot: [
+        ['Set Screenshot Directory', 'path', 'Sets the directory where screenshots are saved.'],
+        ['Take Screenshot', 'name=screenshot, width=800px', 'Takes a screenshot in JPEG format and embeds it into the log file.'],
+        ['Take Screenshot Without Embedding', 'name=screenshot', 'Takes a screenshot and links it from the log file.']
+    ],
+    Dialogs: [
+        ['Execute Manual Step', 'message, default_error=', 'Pauses execution until user sets the keyword status.'],
+        ['Get Selection From User', 'message, *values, default=None', 'Pauses execution and asks user to select a value.'],
+        ['Get Selections From User', 'message, *values', 'Pauses execution and asks user to select multiple values.'],
+        ['Get Value From User', 'message, default_value=, hidden=False', 'Pauses execution and asks user to input a value.'],
+        ['Pause Execution', 'message=Execution paused. Press OK to continue.', 'Pauses execution until user clicks OK button.']
+    ],
+    Telnet: [
+        ['Close All Connections', '', 'Closes all open connections and empties the connection cache.'],
+        ['Close Connection', 'loglevel=None', 'Closes the current Telnet connection.'],
+        ['Execute Command', 'command, loglevel=None, strip_prompt=False', 'Executes the given command and reads, logs, and returns everything until the prompt.'],
+        ['Login', 'username, password, login_prompt=login: , password_prompt=Password: , login_timeout=1 second, login_incorrect=Login incorrect', 'Logs in to the Telnet server with the given user information.'],
+        ['Open Connection', 'host, alias=None, port=23, timeout=None, newline=None, prompt=None, prompt_is_regexp=False, encoding=None, encoding_errors=None, default_log_level=None, window_size=None, environ_user=None, terminal_emulation=None, terminal_type=None, telnetlib_log_level=None, connection_timeout=None', 'Opens a new Telnet connection to the given host and port.'],
+        ['Read', 'loglevel=None', 'Reads everything that is currently available in the output.'],
+        ['Read Until', 'expected, loglevel=None', 'Reads output until expected text is encountered.'],
+        ['Read Until Prompt', 'loglevel=None, strip_prompt=False', 'Reads output until the prompt is encountered.'],
+        ['Read Until Regexp', '*expected', 'Reads output until any of the expected regular expressions match.'],
+        ['Set Default Log Level', 'level', 'Sets the default log level used for logging in the current connection.'],
+        ['Set Encoding', 'encoding=None, errors=None', 'Sets the encoding to use for writing and reading in the current connection.'],
+        ['Set Newline', 'newline', 'Sets the newline used by Write keyword in the current connection.'],
+        ['Set Prompt', 'prompt, prompt_is_regexp=False', 'Sets the prompt used by Read Until Prompt and Login in the current connection.'],
+        ['Set Telnetlib Log Level', 'level', 'Sets the log level used for logging in the underlying telnetlib.'],
+        ['Set Timeout', 'timeout', 'Sets the timeout used for waiting output in the current connection.'],
+        ['Switch Connection', 'index_or_alias', 'Switches between active connections using an index or an alias.'],
+        ['Write', 'text, loglevel=None', 'Writes the given text plus a newline into the connection.'],
+        ['Write Bare', 'text', 'Writes the given text, and nothing else, into the connection.'],
+        ['Write Control Character', 'character', 'Writes the given control character into the connection.'],
+        ['Write Until Expected Output', 'text, expected, timeout, retry_interval, loglevel=None', 'Writes the given text repeatedly until expected appears in the output.']
+    ]
+};
+
+/**
+ * Get the names of all bundled standard libraries
+ */
+export function getStandardLibraryNames(): string[] {
+    return Object.keys(STANDARD_LIBRARIES);
+}
+
+/**
+ * Get the standard library name of a Library import (`Collections` or `robot.libraries.Collections`),
+ * or null if the import is not a standard library
+ */
+export function getStandardLibraryName(importPath: string): string | null {
+    const name = importPath.trim().replace(/^robot\.libraries\./, '');
+    return Object.prototype.hasOwnProperty.call(STANDARD_LIBRARIES, name) ? name : null;
+}
+
+/**
+ * Check if a Library import refers to a bundled standard library
+ */
+export function isStandardLibrary(importPath: string): boolean {
+    return getStandardLibraryName(importPath) !== null;
+}
+
+/**
+ * Get the keywords of a standard library from the bundled catalog
+ */
+export function getStandardLibraryKeywords(importPath: string): ExtractedKeyword[] {
+    const library = getStandardLibraryName(importPath);
+    if (!library) return [];
+
+    return STANDARD_LIBRARIES[library].map(([name, signature, doc]) => {
+        const args = parsePythonSignature(signature);
+        return {
+            name,
+            args: formatKeywordArguments(args),
+            doc,
+            library,
+            arguments: args,
+            tags: []
+        };
+    });
+}
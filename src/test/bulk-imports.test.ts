@@ -0,0 +1,98 @@
+import { settings, setWorkspace } from './vscode-stub';
+import { test, beforeEach } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { SelectedItem } from '../types';
+import { planBulkAdd, planBulkRemove, collectImportChoices, formatBulkImportReport } from '../bulk-imports';
+
+// Workspace fixture: suites in Tests, resources in Resources, Python libraries in Libraries
+const WORKSPACE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'workspace');
+const SUITE = path.join(WORKSPACE, 'Tests', 'suite.robot');
+const KEYWORDS = path.join(WORKSPACE, 'Resources', 'keywords.resource');
+
+/**
+ * Create a selected workspace file as the import tree does
+ */
+function selectFile(relativePath: string, importType: SelectedItem['importType'], details: Partial<SelectedItem> = {}): SelectedItem {
+    const filePath = path.join(WORKSPACE, relativePath);
+    return { isFile: true, filePath, relativePath, absolutePath: filePath, importType, ...details };
+}
+
+/**
+ * Read a fixture workspace file
+ */
+function read(filePath: string): string {
+    return fs.readFileSync(filePath, 'utf8');
+}
+
+beforeEach(() => {
+    setWorkspace(WORKSPACE);
+    for (const key of Object.keys(settings)) delete settings[key];
+});
+
+test('imports are added with paths relative to each file, skipping files already imported', () => {
+    const items = [
+        selectFile('Resources/common.resource', 'Resource'),
+        selectFile('Resources/keywords.resource', 'Resource'),
+        selectFile('Libraries/login_page.py', 'Library', { args: ['timeout=5'], alias: 'Login', aliasMarker: 'AS' })
+    ];
+
+    const suite = planBulkAdd(SUITE, read(SUITE), items, 'relative');
+    assert.deepStrictEqual(suite.changed, ['Library ../Libraries/login_page.py']);
+    assert.deepStrictEqual(suite.skipped, [
+        { importPath: '../Resources/common.resource', reason: 'already imported' },
+        { importPath: '../Resources/keywords.resource', reason: 'already imported' }
+    ]);
+    assert.ok(suite.content.includes('Library    ../Libraries/login_page.py    timeout=5    AS    Login\n'));
+
+    const keywords = planBulkAdd(KEYWORDS, read(KEYWORDS), items, 'relative');
+    assert.deepStrictEqual(keywords.changed, ['Library ../Libraries/login_page.py']);
+    assert.deepStrictEqual(keywords.skipped.map(skipped => skipped.reason), ['already imported', 'is the file itself']);
+});
+
+test('module names match the files they resolve to', () => {
+    settings['rfFilesCreator.pythonpath'] = ['.', 'Libraries'];
+    const items = [selectFile('Libraries/login_page.py', 'Library', { importName: 'login_page' })];
+
+    assert.deepStrictEqual(planBulkAdd(SUITE, read(SUITE), items, 'module').skipped, [
+        { importPath: 'login_page', reason: 'already imported' }
+    ]);
+    assert.deepStrictEqual(planBulkAdd(KEYWORDS, read(KEYWORDS), items, 'module').changed, ['Library login_page']);
+});
+
+test('files with section headers in an unknown language are skipped', () => {
+    const content = '*** Asetuksetx ***\nLibrary    Collections\n';
+    const result = planBulkAdd(SUITE, content, [selectFile('Resources/common.resource', 'Resource')], 'relative');
+
+    assert.strictEqual(result.content, content);
+    assert.deepStrictEqual(result.changed, []);
+    assert.deepStrictEqual(result.skipped.map(skipped => skipped.importPath), ['../Resources/common.resource']);
+});
+
+test('imports of the same file written differently are offered and removed together', () => {
+    const files = [SUITE, KEYWORDS].map(filePath => ({ filePath, content: read(filePath) }));
+    const choices = collectImportChoices(files, filePath => path.relative(WORKSPACE, filePath).split(path.sep).join('/'));
+
+    const common = choices.find(choice => choice.label === 'Resources/common.resource')!;
+    assert.deepStrictEqual(common.files, [SUITE, KEYWORDS]);
+    assert.ok(choices.some(choice => choice.key === 'Library:login_page' && choice.label === 'login_page'));
+
+    const results = files.map(file => planBulkRemove(file.filePath, file.content, [common.key]));
+    assert.deepStrictEqual(results.map(result => result.changed), [
+        ['Resource ${RESOURCES}/common.resource'],
+        ['Resource common.resource']
+    ]);
+    assert.ok(!results[1].content.includes('common.resource'));
+
+    const report = formatBulkImportReport('Remove imports', results, filePath => path.basename(filePath));
+    assert.deepStrictEqual(report.split('\n').slice(0, 7), [
+        '# Remove imports',
+        '',
+        '2 of 2 file(s) changed.',
+        '',
+        '## suite.robot',
+        '',
+        '- `Resource ${RESOURCES}/common.resource`'
+    ]);
+});
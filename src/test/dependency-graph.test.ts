@@ -0,0 +1,70 @@
+import { setWorkspace } from './vscode-stub';
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import { ImportGraph, getFileImportEdges } from '../import-graph';
+import { buildDependencyGraph, DependencyGraph, toMermaid } from '../dependency-graph';
+
+// Suite importing two resources that import each other, a resource importing itself and one nothing imports
+const GRAPH_FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'graph');
+const ROBOT_FILES = ['first.resource', 'orphan.resource', 'second.resource', 'self.resource', 'suite.robot'];
+
+/**
+ * Build the dependency graph of the graph fixtures
+ */
+function buildFixtureGraph(): DependencyGraph {
+    setWorkspace(GRAPH_FIXTURES);
+    const files = ROBOT_FILES.map(name => path.join(GRAPH_FIXTURES, name));
+    const importGraph: ImportGraph = { files, edges: new Map(files.map(file => [file, getFileImportEdges(file)])) };
+    return buildDependencyGraph(importGraph);
+}
+
+/**
+ * Get the labels of nodes by index
+ */
+function labels(graph: DependencyGraph, indexes: number[]): string[] {
+    return indexes.map(index => graph.nodes[index].label);
+}
+
+test('import cycles include resources importing each other and themselves', () => {
+    const graph = buildFixtureGraph();
+
+    assert.deepStrictEqual(graph.cycles.map(cycle => labels(graph, cycle)), [
+        ['first.resource', 'second.resource'],
+        ['self.resource']
+    ]);
+    assert.deepStrictEqual(labels(graph, graph.nodes.map((_, index) => index).filter(index => graph.nodes[index].inCycle)), [
+        'first.resource', 'second.resource', 'self.resource'
+    ]);
+});
+
+test('edges are drawn once per import type and marked when inside a cycle', () => {
+    const graph = buildFixtureGraph();
+    const edges = graph.edges.map(edge => `${graph.nodes[edge.from].label} -${edge.type}-> ${graph.nodes[edge.to].label}${edge.inCycle ? ' (cycle)' : ''}`);
+
+    assert.deepStrictEqual(edges.sort(), [
+        'first.resource -Resource-> second.resource (cycle)',
+        'second.resource -Resource-> first.resource (cycle)',
+        'self.resource -Resource-> self.resource (cycle)',
+        'suite.robot -Library-> helper.py',
+        'suite.robot -Resource-> first.resource'
+    ]);
+});
+
+test('resources that only import themselves or nothing imports are orphans', () => {
+    const graph = buildFixtureGraph();
+
+    assert.deepStrictEqual(graph.nodes.filter(node => node.orphan).map(node => node.label), ['orphan.resource', 'self.resource']);
+    assert.deepStrictEqual(graph.nodes.map(node => node.kind), ['resource', 'resource', 'resource', 'resource', 'robot', 'python']);
+});
+
+test('the Mermaid export styles cycles and orphans', () => {
+    const graph = buildFixtureGraph();
+    const mermaid = toMermaid(graph).split('\n');
+    const cycleEdges = graph.edges.map((edge, index) => edge.inCycle ? index : -1).filter(index => index >= 0);
+
+    assert.strictEqual(mermaid[0], 'flowchart LR');
+    assert.ok(mermaid.includes('    n1["orphan.resource"]:::resource'));
+    assert.ok(mermaid.includes('    style n1 stroke-dasharray:5 5'));
+    assert.deepStrictEqual(mermaid.filter(line => line.startsWith('    linkStyle')).map(line => Number(line.split(' ')[5])), cycleEdges);
+});
@@ -0,0 +1,90 @@
+import './vscode-stub';
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { parseExistingImports } from '../parsers';
+import { updateSettingsSection, replaceImportPaths, removeImportStatements } from '../file-operations';
+
+// Fixtures are read from the sources, they are not copied to the output folder
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+/**
+ * Read a fixture file as it is on disk
+ */
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+test('updating the Settings section replaces only the import statements', () => {
+    const content = readFixture('space-separated.robot');
+    const result = updateSettingsSection(content, '*** Settings ***\nLibrary    String\nResource    ../resources/common.resource\n');
+
+    const expected = content.split('\n');
+    expected.splice(2, 3, 'Library    String', 'Resource    ../resources/common.resource');
+    assert.strictEqual(result, expected.join('\n'));
+});
+
+test('updating the Settings section removes continuation lines of replaced imports', () => {
+    const result = updateSettingsSection(readFixture('continuation.robot'), 'Library    Browser');
+
+    assert.deepStrictEqual(result.split('\n').slice(0, 5), [
+        '*** Settings ***',
+        'Library    Browser',
+        'Documentation     First line',
+        '...               second line',
+        ''
+    ]);
+});
+
+test('updated imports use the setting names of the file language', () => {
+    const result = updateSettingsSection(readFixture('translated-headers.robot'), 'Library    String\nVariables    vars.py');
+
+    assert.deepStrictEqual(result.split('\n').slice(2, 6), [
+        '*** Asetukset ***',
+        'Kirjasto    String',
+        'Muuttujat    vars.py',
+        ''
+    ]);
+});
+
+test('a Settings section is added at the top when the file has none', () => {
+    const content = '*** Test Cases ***\nExample\n    No Operation\n';
+    const result = updateSettingsSection(content, 'Library    Collections');
+
+    assert.strictEqual(result, `*** Settings ***\nLibrary    Collections\n\n${content}`);
+    assert.strictEqual(updateSettingsSection(content, ''), content);
+});
+
+test('replacing import paths keeps pipes, continuations and comments', () => {
+    const piped = readFixture('pipe-separated.robot');
+    const resource = parseExistingImports(piped).find(imp => imp.type === 'Resource')!;
+    assert.strictEqual(
+        replaceImportPaths(piped, [{ imp: resource, newPath: '${CURDIR}/common.resource' }]).split('\n')[2],
+        '| Resource         | ${CURDIR}/common.resource |'
+    );
+
+    const continued = readFixture('continuation.robot');
+    const library = parseExistingImports(continued)[0];
+    assert.deepStrictEqual(replaceImportPaths(continued, [{ imp: library, newPath: 'Browser' }]).split('\n').slice(1, 4), [
+        'Library           Browser',
+        '...               timeout=10',
+        '...               implicit_wait=2'
+    ]);
+
+    const spaced = readFixture('space-separated.robot');
+    const imports = parseExistingImports(spaced);
+    const result = replaceImportPaths(spaced, [
+        { imp: imports[1], newPath: 'os' },
+        { imp: imports[2], newPath: 'common.resource' }
+    ]).split('\n');
+    assert.deepStrictEqual(result.slice(3, 5), ['Library\tos', 'Resource          common.resource    # shared keywords']);
+});
+
+test('removing imports removes their continuation lines and keeps line endings', () => {
+    const content = readFixture('continuation.robot').replace(/\n/g, '\r\n');
+    const result = removeImportStatements(content, parseExistingImports(content));
+
+    assert.deepStrictEqual(result.split('\r\n').slice(0, 3), ['*** Settings ***', 'Documentation     First line', '...               second line']);
+    assert.ok(!result.includes('timeout=10'));
+});
@@ -0,0 +1,15 @@
+def module_helper():
+    pass
+
+
+class Helper:
+    def helper_method(self):
+        pass
+
+
+class Session:
+    def open_session(self, alias):
+        pass
+
+    def close_session(self):
+        pass
@@ -0,0 +1,73 @@
+from robot.api.deco import keyword, library, not_keyword
+
+
+def open_session(url, timeout=10, *headers, **options):
+    """Opens a session.
+
+    Second paragraph.
+    """
+    def nested_helper():
+        pass
+    return url
+
+
+@keyword("Click ${button} Button", tags=["ui", "smoke"])
+def click_button(button):
+    pass
+
+
+@not_keyword
+def helper():
+    pass
+
+
+def _private():
+    pass
+
+
+def wait_until(
+    condition: str,
+    retries: int = 3,
+):  # signature over several lines
+    pass
+
+
+class Browser:
+    ROBOT_LIBRARY_SCOPE = "GLOBAL"
+
+    def go_to(self, url):
+        """Goes to the url."""
+
+    @staticmethod
+    def reload_page(hard=False):
+        pass
+
+    @property
+    def title(self):
+        return ""
+
+
+@library(auto_keywords=False)
+class Explicit:
+    def not_exposed(self):
+        pass
+
+    @keyword
+    def exposed(self):
+        pass
+
+
+class Quiet:
+    ROBOT_AUTO_KEYWORDS = False
+
+    @keyword(name="Say Hello")
+    def hello(self):
+        pass
+
+    def silent(self):
+        pass
+
+
+class _Hidden:
+    def hidden(self):
+        pass
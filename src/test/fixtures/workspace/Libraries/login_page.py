@@ -0,0 +1,2 @@
+def open_login_page():
+    pass
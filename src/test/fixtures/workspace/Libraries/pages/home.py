@@ -0,0 +1,3 @@
+class HomePage:
+    def go_home(self):
+        pass
@@ -0,0 +1,114 @@
+import { settings, setWorkspace } from './vscode-stub';
+import { test, beforeEach } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import { SelectedItem } from '../types';
+import { getImportsHash, mergeImportSelections } from '../import-merge';
+
+// Workspace fixture: suites in Tests, resources in Resources, Python libraries in Libraries
+const WORKSPACE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'workspace');
+const SUITE = path.join(WORKSPACE, 'Tests', 'suite.robot');
+
+// Imports of the suite when the tree was loaded
+const BASE_CONTENT = [
+    '*** Settings ***',
+    'Resource    ../Resources/common.resource',
+    'Resource    ../Resources/keywords.resource',
+    'Library     ../Libraries/login_page.py',
+    ''
+].join('\n');
+
+/**
+ * Create a selected workspace file as the import tree does
+ */
+function selectFile(relativePath: string, importType: SelectedItem['importType'], details: Partial<SelectedItem> = {}): SelectedItem {
+    const filePath = path.join(WORKSPACE, relativePath);
+    return { isFile: true, filePath, relativePath, absolutePath: filePath, importType, ...details };
+}
+
+/**
+ * Get the merged items as `type path [args] [alias]`
+ */
+function summarize(items: SelectedItem[]): string[] {
+    return items.map(item => [
+        item.importType,
+        item.relativePath,
+        ...(item.args || []),
+        ...(item.alias ? [item.aliasMarker || 'AS', item.alias] : [])
+    ].join(' '));
+}
+
+beforeEach(() => {
+    setWorkspace(WORKSPACE);
+    for (const key of Object.keys(settings)) delete settings[key];
+});
+
+test('the imports hash ignores formatting and changes with arguments', () => {
+    const realigned = BASE_CONTENT.replace(/ {4,}/g, '  ');
+
+    assert.strictEqual(getImportsHash(realigned), getImportsHash(BASE_CONTENT));
+    assert.strictEqual(getImportsHash(`${BASE_CONTENT}# comment\n`), getImportsHash(BASE_CONTENT));
+    assert.notStrictEqual(
+        getImportsHash(BASE_CONTENT.replace('login_page.py', 'login_page.py    timeout=5')),
+        getImportsHash(BASE_CONTENT)
+    );
+});
+
+test('changes made on only one side are kept', () => {
+    const current = BASE_CONTENT
+        .replace('Resource    ../Resources/keywords.resource\n', '')
+        .concat('Variables    ../Variables/config.yaml\n');
+    const selection = [
+        selectFile('Resources/common.resource', 'Resource'),
+        selectFile('Resources/keywords.resource', 'Resource'),
+        selectFile('Libraries/helpers/text-utils.py', 'Library', { alias: 'Text', aliasMarker: 'AS' })
+    ];
+
+    const result = mergeImportSelections(SUITE, BASE_CONTENT, current, selection);
+    assert.deepStrictEqual(summarize(result.items), [
+        'Resource ../Resources/common.resource',
+        'Variables ../Variables/config.yaml',
+        'Library Libraries/helpers/text-utils.py AS Text'
+    ]);
+    assert.deepStrictEqual(result.conflicts, []);
+});
+
+test('an import changed on both sides keeps the tree selection and reports a conflict', () => {
+    const current = BASE_CONTENT
+        .replace('Resource    ../Resources/common.resource\n', '')
+        .replace('keywords.resource', 'keywords.resource    AS    Keywords')
+        .replace('login_page.py', 'login_page.py    timeout=5');
+    const selection = [
+        selectFile('Resources/common.resource', 'Resource', { alias: 'Common' }),
+        selectFile('Libraries/login_page.py', 'Library', { args: ['timeout=10'] })
+    ];
+
+    const result = mergeImportSelections(SUITE, BASE_CONTENT, current, selection);
+    assert.deepStrictEqual(summarize(result.items), [
+        'Library Libraries/login_page.py timeout=10',
+        'Resource Resources/common.resource AS Common'
+    ]);
+    assert.deepStrictEqual(result.conflicts, [
+        '../Resources/keywords.resource: removed in the tree but changed in the file',
+        '../Libraries/login_page.py: changed in the file and in the tree',
+        '../Resources/common.resource: removed in the file but changed in the tree'
+    ]);
+});
+
+test('imports are matched by the file they resolve to, not by how they are written', () => {
+    const current = BASE_CONTENT.replace('../Resources/common.resource', '${CURDIR}/../Resources/common.resource');
+    const selection = [
+        selectFile('Resources/common.resource', 'Resource'),
+        selectFile('Resources/keywords.resource', 'Resource'),
+        selectFile('Libraries/login_page.py', 'Library'),
+        selectFile('Resources/common.resource', 'Resource')
+    ];
+
+    const result = mergeImportSelections(SUITE, BASE_CONTENT, current, selection);
+    assert.deepStrictEqual(summarize(result.items), [
+        'Resource ${CURDIR}/../Resources/common.resource',
+        'Resource ../Resources/keywords.resource',
+        'Library ../Libraries/login_page.py'
+    ]);
+    assert.deepStrictEqual(result.conflicts, []);
+});
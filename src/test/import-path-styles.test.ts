@@ -0,0 +1,99 @@
+import { settings, setWorkspace } from './vscode-stub';
+import { test, beforeEach } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ConversionPlan, ImportPathStyle, planImportPathConversion, formatConversionReport } from '../import-path-styles';
+
+// Workspace fixture: suites in Tests, resources in Resources, Python libraries in Libraries
+const WORKSPACE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'workspace');
+const SUITE = path.join(WORKSPACE, 'Tests', 'suite.robot');
+const UNUSED_SUITE = path.join(WORKSPACE, 'Tests', 'unused.robot');
+
+/**
+ * Plan the conversion of a fixture suite as written on disk
+ */
+function planFor(filePath: string, style: ImportPathStyle): ConversionPlan {
+    return planImportPathConversion(filePath, fs.readFileSync(filePath, 'utf8'), style);
+}
+
+/**
+ * Get the planned changes as `old -> new`
+ */
+function changes(plan: ConversionPlan): string[] {
+    return plan.changes.map(change => `${change.imp.path} -> ${change.newPath}`);
+}
+
+beforeEach(() => {
+    setWorkspace(WORKSPACE);
+    for (const key of Object.keys(settings)) delete settings[key];
+});
+
+test('relative style rewrites pythonpath and ${CURDIR} paths and leaves module names alone', () => {
+    const plan = planFor(SUITE, 'relative');
+
+    assert.deepStrictEqual(changes(plan), [
+        'Resources/keywords.resource -> ../Resources/keywords.resource',
+        '${CURDIR}${/}..${/}Variables${/}config.yaml -> ../Variables/config.yaml'
+    ]);
+    assert.deepStrictEqual(plan.skipped.map(skipped => [skipped.imp.path, skipped.reason]), [
+        ['${RESOURCES}/common.resource', 'starts with a variable']
+    ]);
+});
+
+test('workspace style needs the workspace root in the pythonpath', () => {
+    assert.deepStrictEqual(changes(planFor(UNUSED_SUITE, 'workspace')), [
+        '../Libraries/login_page.py -> Libraries/login_page.py',
+        '../Resources/keywords.resource -> Resources/keywords.resource',
+        '../Variables/config.yaml -> Variables/config.yaml'
+    ]);
+
+    settings['rfFilesCreator.pythonpath'] = ['Libraries'];
+    const plan = planFor(UNUSED_SUITE, 'workspace');
+    assert.deepStrictEqual(plan.changes, []);
+    assert.deepStrictEqual(
+        [...new Set(plan.skipped.map(skipped => skipped.reason))],
+        ['the workspace root is not in rfFilesCreator.pythonpath']
+    );
+});
+
+test('curdir style prefixes paths relative to the file', () => {
+    assert.deepStrictEqual(changes(planFor(UNUSED_SUITE, 'curdir')), [
+        '../Libraries/login_page.py -> ${CURDIR}/../Libraries/login_page.py',
+        '../Resources/keywords.resource -> ${CURDIR}/../Resources/keywords.resource',
+        '../Variables/config.yaml -> ${CURDIR}/../Variables/config.yaml'
+    ]);
+});
+
+test('separators style only replaces backslashes, also in unresolved paths', () => {
+    const content = [
+        '*** Settings ***',
+        'Resource    ..\\Resources\\keywords.resource',
+        'Resource    ${ROOT}\\missing.resource',
+        'Variables    ../Variables/config.yaml'
+    ].join('\n');
+    const plan = planImportPathConversion(SUITE, content, 'separators');
+
+    assert.deepStrictEqual(changes(plan), [
+        '..\\Resources\\keywords.resource -> ../Resources/keywords.resource',
+        '${ROOT}\\missing.resource -> ${ROOT}/missing.resource'
+    ]);
+});
+
+test('unresolved imports are skipped and listed in the report', () => {
+    const content = '*** Settings ***\nResource    missing.resource\nResource    Resources/keywords.resource\n';
+    const plan = planImportPathConversion(SUITE, content, 'relative');
+    const report = formatConversionReport([plan], 'relative', filePath => path.relative(WORKSPACE, filePath));
+
+    assert.deepStrictEqual(report.split('\n'), [
+        '# Import path conversion: relative',
+        '',
+        '1 import(s) in 1 file(s) would change.',
+        '',
+        `## ${path.join('Tests', 'suite.robot')}`,
+        '',
+        '- Line 3: `Resources/keywords.resource` → `../Resources/keywords.resource`',
+        '- Line 2: `missing.resource` skipped (does not resolve to a file)',
+        ''
+    ]);
+});
@@ -0,0 +1,113 @@
+import { settings, setWorkspace } from './vscode-stub';
+import { test, beforeEach } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+    expandImportVariables,
+    resolveImportPath,
+    resolveImport,
+    getImportCandidates,
+    isModuleName,
+    resolveLibraryModule,
+    getModuleNameForFile
+} from '../import-resolver';
+
+// Workspace fixture: suites in Tests, resources in Resources, Python libraries in Libraries
+const WORKSPACE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'workspace');
+const SUITE = path.join(WORKSPACE, 'Tests', 'suite.robot');
+
+/**
+ * Get a fixture workspace path from its parts
+ */
+function workspacePath(...parts: string[]): string {
+    return path.join(WORKSPACE, ...parts);
+}
+
+beforeEach(() => {
+    setWorkspace(WORKSPACE);
+    for (const key of Object.keys(settings)) delete settings[key];
+});
+
+test('built-in, file and configured variables are expanded in import paths', () => {
+    const content = fs.readFileSync(SUITE, 'utf8');
+    settings['rfFilesCreator.variables'] = { '${SHARED ROOT}': '${EXECDIR}/Resources' };
+    process.env.RF_IMPORT_TEST = 'from-env';
+
+    assert.strictEqual(expandImportVariables('${CURDIR}${/}data.robot', SUITE, content), `${path.dirname(SUITE)}/data.robot`);
+    assert.strictEqual(expandImportVariables('${resources}/common.resource', SUITE, content), '../Resources/common.resource');
+    assert.strictEqual(expandImportVariables('${shared_root}/a.resource', SUITE, content), `${WORKSPACE}/Resources/a.resource`);
+    assert.strictEqual(expandImportVariables('%{RF_IMPORT_TEST}/a.resource', SUITE, content), 'from-env/a.resource');
+    assert.strictEqual(expandImportVariables('${UNKNOWN}/a.resource', SUITE, content), '${UNKNOWN}/a.resource');
+});
+
+test('file variables are read from the file when no content is given', () => {
+    assert.strictEqual(resolveImportPath('${RESOURCES}/common.resource', SUITE), workspacePath('Resources', 'common.resource'));
+});
+
+test('paths resolve next to the importing file before the pythonpath roots', () => {
+    const content = fs.readFileSync(SUITE, 'utf8');
+
+    assert.strictEqual(resolveImportPath('../Resources/common.resource', SUITE, content), workspacePath('Resources', 'common.resource'));
+    assert.strictEqual(resolveImportPath('Resources/keywords.resource', SUITE, content), workspacePath('Resources', 'keywords.resource'));
+    assert.strictEqual(resolveImportPath('..\\Variables\\config.yaml', SUITE, content), workspacePath('Variables', 'config.yaml'));
+    assert.strictEqual(
+        resolveImportPath('${CURDIR}${/}..${/}Variables${/}config.yaml', SUITE, content),
+        workspacePath('Variables', 'config.yaml')
+    );
+    assert.strictEqual(resolveImportPath('missing.resource', SUITE, content), undefined);
+
+    settings['rfFilesCreator.pythonpath'] = [];
+    assert.strictEqual(resolveImportPath('Resources/keywords.resource', SUITE, content), undefined);
+});
+
+test('paths with variables that cannot be expanded are not resolved', () => {
+    assert.strictEqual(resolveImportPath('${NOT SET}/common.resource', SUITE, ''), undefined);
+    assert.deepStrictEqual(getImportCandidates({ type: 'Resource', path: '%{RF_IMPORT_TEST_NOT_SET}/a.resource' }, SUITE, ''), []);
+});
+
+test('Library paths to Python files resolve like other paths', () => {
+    assert.strictEqual(resolveImport({ type: 'Library', path: '../Libraries/login_page.py' }, SUITE, ''), workspacePath('Libraries', 'login_page.py'));
+    assert.strictEqual(resolveImport({ type: 'Library', path: '${CURDIR}/../Libraries/pages/home.py' }, SUITE, ''), workspacePath('Libraries', 'pages', 'home.py'));
+});
+
+test('module names are told apart from paths', () => {
+    assert.ok(isModuleName('login_page'));
+    assert.ok(isModuleName('pages.home.HomePage'));
+    assert.ok(!isModuleName('login_page.py'));
+    assert.ok(!isModuleName('../Libraries/login_page'));
+    assert.ok(!isModuleName('${CURDIR}/lib'));
+});
+
+test('module names resolve to modules, packages and classes in the pythonpath', () => {
+    settings['rfFilesCreator.pythonpath'] = ['.', 'Libraries'];
+
+    assert.strictEqual(resolveLibraryModule('login_page', SUITE), workspacePath('Libraries', 'login_page.py'));
+    assert.strictEqual(resolveLibraryModule('pages.home', SUITE), workspacePath('Libraries', 'pages', 'home.py'));
+    assert.strictEqual(resolveLibraryModule('pages.home.HomePage', SUITE), workspacePath('Libraries', 'pages', 'home.py'));
+    assert.strictEqual(resolveLibraryModule('pages', SUITE), workspacePath('Libraries', 'pages', '__init__.py'));
+    assert.strictEqual(resolveLibraryModule('Libraries.login_page', SUITE), workspacePath('Libraries', 'login_page.py'));
+    assert.strictEqual(resolveLibraryModule('Collections', SUITE), undefined);
+
+    assert.strictEqual(resolveImport({ type: 'Library', path: 'login_page' }, SUITE, ''), workspacePath('Libraries', 'login_page.py'));
+    assert.strictEqual(resolveImport({ type: 'Resource', path: 'login_page' }, SUITE, ''), undefined);
+});
+
+test('module names of Python files come from the deepest pythonpath root', () => {
+    settings['rfFilesCreator.pythonpath'] = ['.', 'Libraries'];
+
+    assert.deepStrictEqual(getModuleNameForFile(workspacePath('Libraries', 'pages', 'home.py')), {
+        moduleName: 'pages.home',
+        importable: true,
+        problems: []
+    });
+    assert.strictEqual(getModuleNameForFile(workspacePath('Libraries', 'pages', '__init__.py'))?.moduleName, 'pages');
+
+    const invalid = getModuleNameForFile(workspacePath('Libraries', 'helpers', 'text-utils.py'))!;
+    assert.strictEqual(invalid.moduleName, 'helpers.text-utils');
+    assert.strictEqual(invalid.importable, false);
+    assert.deepStrictEqual(invalid.problems, ['invalid module name part(s): text-utils', 'missing __init__.py in helpers']);
+
+    settings['rfFilesCreator.pythonpath'] = ['Resources'];
+    assert.strictEqual(getModuleNameForFile(workspacePath('Libraries', 'login_page.py')), undefined);
+});
@@ -0,0 +1,68 @@
+import { settings } from './vscode-stub';
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { parseLibdocXml, parseLibdocJson, findLibdocSpec, findLibraryKeywords } from '../libdoc';
+
+// Fixtures are read from the sources, they are not copied to the output folder
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+const SPEC_FOLDER = path.join(FIXTURES, 'libdoc');
+
+/**
+ * Read a fixture file as it is on disk
+ */
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+test('XML specs give keyword arguments with kinds, types and defaults', () => {
+    const spec = parseLibdocXml(readFixture('libdoc/Demo.libspec'), path.join(SPEC_FOLDER, 'Demo.libspec'))!;
+
+    assert.strictEqual(spec.name, 'DemoLibrary');
+    assert.deepStrictEqual(spec.keywords.map(keyword => keyword.name), ['Open Browser', 'Click ${element} Twice']);
+
+    const [openBrowser, clickTwice] = spec.keywords;
+    assert.deepStrictEqual(openBrowser.args, ['${url}', '${browser: str}=chrome', '@{options}', '${timeout: int | float}=5', '&{config}']);
+    assert.strictEqual(openBrowser.doc, 'Opens a browser & goes to ``url``.');
+    assert.deepStrictEqual(openBrowser.tags, ['browser']);
+    assert.strictEqual(openBrowser.library, 'DemoLibrary');
+    assert.deepStrictEqual(clickTwice.arguments, [{ name: 'element', kind: 'embedded' }]);
+    assert.strictEqual(clickTwice.doc, 'No description');
+});
+
+test('Libdoc 2 XML specs with HTML documentation are read', () => {
+    const spec = parseLibdocXml(readFixture('libdoc/Legacy.xml'), path.join(SPEC_FOLDER, 'Legacy.xml'))!;
+
+    assert.strictEqual(spec.name, 'LegacyLibrary');
+    assert.deepStrictEqual(spec.keywords[0].args, ['${first}', '${second}=default', '@{values}', '${level}=INFO', '&{extra}']);
+    assert.strictEqual(spec.keywords[0].arguments[3].kind, 'namedOnly');
+    assert.strictEqual(spec.keywords[0].doc, 'Logs values.\nOne per row.');
+});
+
+test('JSON specs are read and other JSON files are ignored', () => {
+    const spec = parseLibdocJson(readFixture('libdoc/JsonLibrary.json'), path.join(SPEC_FOLDER, 'JsonLibrary.json'))!;
+
+    assert.strictEqual(spec.name, 'JsonLibrary');
+    assert.strictEqual(spec.keywords.length, 1);
+    assert.deepStrictEqual(spec.keywords[0].args, ['${path: str}', '${default: int | None}=None', '${strict: bool}=false']);
+    assert.strictEqual(spec.keywords[0].doc, 'Gets a value.');
+    assert.deepStrictEqual(spec.keywords[0].tags, ['json']);
+
+    assert.strictEqual(parseLibdocJson(readFixture('libdoc/settings.json'), 'settings.json'), null);
+    assert.strictEqual(parseLibdocJson('{ not json', 'broken.json'), null);
+    assert.strictEqual(parseLibdocXml('<robot></robot>', 'output.xml'), null);
+});
+
+test('specs in the configured folders are found by library or file name', () => {
+    settings['rfFilesCreator.libdocSpecPaths'] = [SPEC_FOLDER];
+
+    assert.strictEqual(findLibdocSpec('DemoLibrary')?.filePath, path.join(SPEC_FOLDER, 'Demo.libspec'));
+    assert.strictEqual(findLibdocSpec(' Demo ')?.name, 'DemoLibrary');
+    assert.strictEqual(findLibdocSpec('JsonLibrary')?.keywords.length, 1);
+    assert.strictEqual(findLibdocSpec('settings'), null);
+
+    assert.strictEqual(findLibraryKeywords('LegacyLibrary')?.source, path.join(SPEC_FOLDER, 'Legacy.xml'));
+    assert.strictEqual(findLibraryKeywords('Collections')?.source, 'Collections');
+    assert.strictEqual(findLibraryKeywords('NoSuchLibrary'), null);
+});
@@ -0,0 +1,107 @@
+import './vscode-stub';
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { organizeImports, OrganizeImportsOptions } from '../organize-imports';
+
+// Fixtures are read from the sources, they are not copied to the output folder
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+// Defaults of the `rfFilesCreator.organizeImports.*` settings
+const DEFAULT_OPTIONS: OrganizeImportsOptions = {
+    typeOrder: ['Library', 'Resource', 'Variables'],
+    standardLibrariesFirst: true,
+    sortAlphabetically: true,
+    groupByFolder: false,
+    alignColumns: true
+};
+
+/**
+ * Read a fixture file as it is on disk
+ */
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+test('imports are sorted by type, standard libraries first and path, and aligned', () => {
+    const result = organizeImports(readFixture('organize.robot'), DEFAULT_OPTIONS);
+
+    assert.deepStrictEqual(result.split('\n').slice(0, 13), [
+        '*** Settings ***',
+        'Documentation     Imports out of order',
+        'Library      Collections',
+        'Library      Browser    AS    Web    # browser alias',
+        'Library      SeleniumLibrary',
+        '...    timeout=10',
+        'Resource     ../Resources/alpha.resource',
+        'Resource     ../Resources/zeta.resource',
+        'Variables    vars.yaml',
+        '# Imports after a comment form their own run',
+        'Library      String',
+        'Resource     keywords/beta.resource',
+        'Suite Setup    Log    start'
+    ]);
+    assert.strictEqual(organizeImports(result, DEFAULT_OPTIONS), result);
+});
+
+test('folder groups follow the type order and are separated by blank lines', () => {
+    const options: OrganizeImportsOptions = {
+        typeOrder: ['Resource', 'Library', 'Variables'],
+        standardLibrariesFirst: false,
+        sortAlphabetically: true,
+        groupByFolder: true,
+        alignColumns: false
+    };
+    const result = organizeImports(readFixture('organize.robot'), options);
+
+    assert.deepStrictEqual(result.split('\n').slice(2, 17), [
+        'Resource  ../Resources/alpha.resource',
+        'Resource    ../Resources/zeta.resource',
+        '',
+        'Library           Browser    AS    Web    # browser alias',
+        'Library    Collections',
+        'Library    SeleniumLibrary',
+        '...    timeout=10',
+        '',
+        'Variables    vars.yaml',
+        '# Imports after a comment form their own run',
+        'Resource    keywords/beta.resource',
+        '',
+        'Library    String',
+        'Suite Setup    Log    start',
+        ''
+    ]);
+    assert.strictEqual(organizeImports(result, options), result);
+});
+
+test('without sorting imports keep their order and only exact duplicates are removed', () => {
+    const content = [
+        '*** Settings ***',
+        'Resource    b.resource',
+        'Library    Collections',
+        'Resource    a.resource',
+        'Library    Collections    AS    Lists',
+        'Resource    b.resource'
+    ].join('\r\n');
+    const options = { ...DEFAULT_OPTIONS, sortAlphabetically: false, alignColumns: false };
+
+    assert.strictEqual(organizeImports(content, options), [
+        '*** Settings ***',
+        'Library    Collections',
+        'Library    Collections    AS    Lists',
+        'Resource    b.resource',
+        'Resource    a.resource'
+    ].join('\r\n'));
+});
+
+test('pipe separated imports are sorted without being realigned', () => {
+    const content = readFixture('pipe-separated.robot').replace('| Library          | Collections |', '| Resource         | ../resources/zeta.resource |');
+    const result = organizeImports(content, DEFAULT_OPTIONS);
+
+    assert.deepStrictEqual(result.split('\n').slice(1, 3), [
+        '| Resource         | ../resources/common.resource |',
+        '| Resource         | ../resources/zeta.resource |'
+    ]);
+    assert.strictEqual(organizeImports('*** Test Cases ***\nExample\n    No Operation\n', DEFAULT_OPTIONS), '*** Test Cases ***\nExample\n    No Operation\n');
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExtractedKeyword } from '../types';
+import { extractKeywordsFromPythonSource, getPythonLibraryClassNames } from '../python-parser';
+
+// Fixtures are read from the sources, they are not copied to the output folder
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+/**
+ * Read a fixture file as it is on disk
+ */
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+/**
+ * Get the library and name of each keyword
+ */
+function names(keywords: ExtractedKeyword[]): string[] {
+    return keywords.map(keyword => `${keyword.library}.${keyword.name}`);
+}
+
+test('module functions and class methods follow the library keyword rules', () => {
+    const keywords = extractKeywordsFromPythonSource(readFixture('libraries/keyword_rules.py'), 'keyword_rules');
+
+    assert.deepStrictEqual(names(keywords), [
+        'keyword_rules.Open Session',
+        'keyword_rules.Click ${button} Button',
+        'keyword_rules.Wait Until',
+        'Browser.Go To',
+        'Browser.Reload Page',
+        'Explicit.Exposed',
+        'Quiet.Say Hello'
+    ]);
+});
+
+test('keyword arguments, tags and documentation come from the source', () => {
+    const keywords = extractKeywordsFromPythonSource(readFixture('libraries/keyword_rules.py'), 'keyword_rules');
+    const byName = new Map(keywords.map(keyword => [keyword.name, keyword]));
+
+    assert.deepStrictEqual(byName.get('Open Session')!.args, ['${url}', '${timeout}=10', '@{headers}', '&{options}']);
+    assert.strictEqual(byName.get('Open Session')!.doc, 'Opens a session.\n\nSecond paragraph.');
+    assert.deepStrictEqual(byName.get('Wait Until')!.args, ['${condition: str}', '${retries: int}=3']);
+    assert.deepStrictEqual(byName.get('Reload Page')!.args, ['${hard}=False']);
+    assert.deepStrictEqual(byName.get('Click ${button} Button')!.args, []);
+    assert.deepStrictEqual(byName.get('Click ${button} Button')!.tags, ['ui', 'smoke']);
+});
+
+test('a class named like the module is the library', () => {
+    const keywords = extractKeywordsFromPythonSource(readFixture('libraries/Session.py'), 'Session');
+
+    assert.deepStrictEqual(names(keywords), ['Session.Open Session', 'Session.Close Session']);
+});
+
+test('public top-level classes can be imported by name', () => {
+    assert.deepStrictEqual(getPythonLibraryClassNames(readFixture('libraries/keyword_rules.py')), ['Browser', 'Explicit', 'Quiet']);
+});
@@ -0,0 +1,95 @@
+import { settings, setWorkspace, appliedEdits, fireRenameFiles, waitForApplyEdit } from './vscode-stub';
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { registerRenameImportUpdates } from '../rename-imports';
+
+// Workspace fixture: suites in Tests, resources in Resources, Python libraries in Libraries
+const WORKSPACE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'workspace');
+
+let root: string;
+
+registerRenameImportUpdates({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+
+/**
+ * List the .robot and .resource files below a folder
+ */
+function listRobotFiles(folder: string): string[] {
+    return fs.readdirSync(folder, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(folder, entry.name);
+        if (entry.isDirectory()) return listRobotFiles(fullPath);
+        return /\.(robot|resource)$/.test(entry.name) ? [fullPath] : [];
+    });
+}
+
+/**
+ * Rename files in the copied workspace and get the import paths written by the update,
+ * as `file: new path` with paths relative to the workspace
+ */
+async function renameFiles(renames: { [from: string]: string }): Promise<string[]> {
+    const files = Object.entries(renames).map(([from, to]) => ({ oldPath: path.join(root, from), newPath: path.join(root, to) }));
+    for (const file of files) {
+        fs.mkdirSync(path.dirname(file.newPath), { recursive: true });
+        fs.renameSync(file.oldPath, file.newPath);
+    }
+    setWorkspace(root, listRobotFiles(root));
+
+    const applied = waitForApplyEdit();
+    fireRenameFiles(files);
+    await applied;
+
+    return appliedEdits[appliedEdits.length - 1].replacements
+        .map(replacement => `${path.relative(root, replacement.uri.fsPath).split(path.sep).join('/')}: ${replacement.newText}`)
+        .sort();
+}
+
+beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'rf-rename-'));
+    fs.cpSync(WORKSPACE, root, { recursive: true });
+    for (const key of Object.keys(settings)) delete settings[key];
+});
+
+afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+test('moving a resource keeps relative, variable and pythonpath paths in their style', { timeout: 5000 }, async () => {
+    const changes = await renameFiles({ 'Resources/common.resource': 'Resources/shared/common.resource' });
+
+    assert.deepStrictEqual(changes, [
+        'Resources/keywords.resource: shared/common.resource',
+        'Tests/suite.robot: ${RESOURCES}/shared/common.resource'
+    ]);
+});
+
+test('renaming a folder updates ${CURDIR} paths with their separators', { timeout: 5000 }, async () => {
+    const changes = await renameFiles({ 'Variables': 'Config' });
+
+    assert.deepStrictEqual(changes, [
+        'Tests/suite.robot: ${CURDIR}${/}..${/}Config${/}config.yaml',
+        'Tests/unused.robot: ../Config/config.yaml'
+    ]);
+});
+
+test('moving a Python library updates module names and file paths', { timeout: 5000 }, async () => {
+    settings['rfFilesCreator.pythonpath'] = ['.', 'Libraries'];
+    const changes = await renameFiles({ 'Libraries/login_page.py': 'Libraries/pages/login_page.py' });
+
+    assert.deepStrictEqual(changes, [
+        'Tests/suite.robot: pages.login_page',
+        'Tests/unused.robot: ../Libraries/pages/login_page.py'
+    ]);
+});
+
+test('moving the importing file rewrites its own relative imports', { timeout: 5000 }, async () => {
+    const changes = await renameFiles({ 'Tests/unused.robot': 'Tests/smoke/unused.robot' });
+
+    assert.deepStrictEqual(changes, [
+        'Tests/smoke/unused.robot: ../../Libraries/login_page.py',
+        'Tests/smoke/unused.robot: ../../Resources/keywords.resource',
+        'Tests/smoke/unused.robot: ../../Variables/config.yaml'
+    ]);
+});
@@ -0,0 +1,148 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { RobotDocument, RobotStatement } from '../types';
+import { parseRobotDocument, tokenizeRobotLine, getPrimaryLanguage } from '../robot-document';
+
+// Fixtures are read from the sources, they are not copied to the output folder
+const FIXTURES = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+/**
+ * Read a fixture file as it is on disk
+ */
+function readFixture(name: string): string {
+    return fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+/**
+ * Get the values of the tokens of a statement
+ */
+function values(statement: RobotStatement): string[] {
+    return statement.tokens.map(token => token.value);
+}
+
+/**
+ * Get the types of the sections with a header
+ */
+function sectionTypes(document: RobotDocument): string[] {
+    return document.sections.filter(section => section.headerLine >= 0).map(section => section.type);
+}
+
+test('space separated rows split on two or more spaces and tabs', () => {
+    const document = parseRobotDocument(readFixture('space-separated.robot'));
+
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'variables', 'testCases', 'keywords']);
+    assert.deepStrictEqual(document.settings.map(values), [
+        ['Documentation', 'Space separated suite'],
+        ['Library', 'Collections'],
+        ['Library', 'OperatingSystem'],
+        ['Resource', '../resources/common.resource']
+    ]);
+    assert.deepStrictEqual(document.variables.map(values), [['${GREETING}', 'Hello world']]);
+    assert.deepStrictEqual(document.testCases.map(block => block.name), ['Open Page']);
+    assert.deepStrictEqual(values(document.testCases[0].statements[1]), ['Should Be Equal', 'one two', 'one two']);
+    assert.deepStrictEqual(document.keywords[0].statements.map(statement => statement.name), ['[arguments]', 'log']);
+});
+
+test('pipe separated rows keep indentation and drop trailing pipes', () => {
+    const document = parseRobotDocument(readFixture('pipe-separated.robot'));
+
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'testCases', 'keywords']);
+    assert.deepStrictEqual(document.settings.map(values), [
+        ['Library', 'Collections'],
+        ['Resource', '../resources/common.resource']
+    ]);
+    assert.deepStrictEqual(document.testCases[0].statements.map(values), [['Log', 'Hello'], ['Log', 'World']]);
+    assert.deepStrictEqual(document.keywords[0].statements.map(values), [['[Arguments]', '${value}'], ['Log', '${value}']]);
+});
+
+test('pipe separated tokens report their columns', () => {
+    const row = tokenizeRobotLine('| Library | Collections |', 0);
+
+    assert.strictEqual(row.indented, false);
+    assert.deepStrictEqual(row.tokens.map(token => [token.value, token.column]), [['Library', 2], ['Collections', 12]]);
+});
+
+test('continuation rows extend the previous statement', () => {
+    const document = parseRobotDocument(readFixture('continuation.robot'));
+
+    const [library, documentation] = document.settings;
+    assert.deepStrictEqual(values(library), ['Library', 'SeleniumLibrary', 'timeout=10', 'implicit_wait=2']);
+    assert.deepStrictEqual([library.startLine, library.endLine], [1, 3]);
+    assert.deepStrictEqual(values(documentation), ['Documentation', 'First line', 'second line']);
+
+    const keyword = document.keywords[0];
+    assert.deepStrictEqual(keyword.statements.map(values), [
+        ['[Arguments]', '${first}', '${second}'],
+        ['Log Many', '${first}', '${second}']
+    ]);
+    assert.strictEqual(keyword.endLine, 12);
+});
+
+test('singular headers are recognized and comment sections create no statements', () => {
+    const document = parseRobotDocument(readFixture('singular-headers.robot'));
+
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'variables', 'testCases', 'keywords', 'comments']);
+    assert.deepStrictEqual(document.settings.map(values), [['Library', 'Collections']]);
+    assert.strictEqual(document.testCases.length, 1);
+    assert.strictEqual(document.keywords.length, 1);
+});
+
+test('headers with extra spaces inside are recognized', () => {
+    const document = parseRobotDocument(readFixture('spaced-headers.robot'));
+
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'testCases']);
+    assert.deepStrictEqual(document.settings.map(values), [['Library', 'Collections']]);
+    assert.deepStrictEqual(document.testCases.map(block => block.name), ['Example']);
+});
+
+test('byte order mark and CRLF line endings are kept out of the tokens', () => {
+    const content = '\uFEFF' + readFixture('space-separated.robot').replace(/\n/g, '\r\n');
+    const document = parseRobotDocument(content);
+
+    assert.strictEqual(document.bom, '\uFEFF');
+    assert.strictEqual(document.eol, '\r\n');
+    assert.strictEqual(document.lines[0], '*** Settings ***');
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'variables', 'testCases', 'keywords']);
+    assert.deepStrictEqual(values(document.settings[1]), ['Library', 'Collections']);
+});
+
+test('translated headers and settings follow the language marker', () => {
+    const document = parseRobotDocument(readFixture('translated-headers.robot'));
+
+    assert.deepStrictEqual(document.languages, ['fi', 'en']);
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'testCases', 'keywords']);
+    assert.deepStrictEqual(document.settings.map(statement => statement.name), ['library', 'resource']);
+    assert.deepStrictEqual(document.testCases.map(block => block.name), ['Esimerkki']);
+});
+
+test('translated headers follow the workspace default languages', () => {
+    const content = readFixture('default-language.robot');
+
+    assert.deepStrictEqual(sectionTypes(parseRobotDocument(content)), ['invalid', 'invalid']);
+
+    const document = parseRobotDocument(content, ['pt-BR']);
+    assert.deepStrictEqual(sectionTypes(document), ['settings', 'testCases']);
+    assert.deepStrictEqual(document.settings.map(statement => statement.name), ['library']);
+});
+
+test('the primary language follows the file before the workspace default', () => {
+    const primaryLanguage = (name: string, defaultLanguages: string[]) =>
+        getPrimaryLanguage(parseRobotDocument(name ? readFixture(name) : '', defaultLanguages)).code;
+
+    assert.strictEqual(primaryLanguage('space-separated.robot', ['pt-BR']), 'en');
+    assert.strictEqual(primaryLanguage('singular-headers.robot', ['pt-BR']), 'en');
+    assert.strictEqual(primaryLanguage('translated-headers.robot', ['pt-BR']), 'fi');
+    assert.strictEqual(primaryLanguage('default-language.robot', ['fi', 'pt-BR']), 'pt-br');
+    assert.strictEqual(primaryLanguage('', ['pt-BR']), 'pt-br');
+    assert.strictEqual(primaryLanguage('', []), 'en');
+});
+
+test('setting names decide the primary language before section headers', () => {
+    const translatedSettings = parseRobotDocument('*** Settings ***\nBiblioteca    A\n', ['pt-BR']);
+    assert.strictEqual(getPrimaryLanguage(translatedSettings).code, 'pt-br');
+
+    const englishSettings = parseRobotDocument('*** Configurações ***\nLibrary    A\n', ['pt-BR']);
+    assert.strictEqual(getPrimaryLanguage(englishSettings).code, 'en');
+});
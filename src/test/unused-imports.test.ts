@@ -0,0 +1,75 @@
+import { settings, setWorkspace } from './vscode-stub';
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as path from 'path';
+import * as fs from 'fs';
+import { findUnusedImports } from '../unused-imports';
+import { createKeywordMatcher, collectFileUsage, findKeywordCallTokens } from '../keyword-usage';
+
+// Workspace fixture: suites in Tests, resources in Resources, Python libraries in Libraries
+const WORKSPACE = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'workspace');
+
+test('imports whose keywords and variables are never used are reported', () => {
+    setWorkspace(WORKSPACE);
+    settings['rfFilesCreator.pythonpath'] = ['.', 'Libraries'];
+    const suite = path.join(WORKSPACE, 'Tests', 'unused.robot');
+
+    // Libraries without keyword information (NoSuchLibrary) are never reported
+    const unused = findUnusedImports(fs.readFileSync(suite, 'utf8'), suite);
+    assert.deepStrictEqual(unused.map(imp => imp.path), ['pages.home.HomePage', 'Collections']);
+    assert.deepStrictEqual(unused.map(imp => imp.location?.startLine), [2, 3]);
+});
+
+test('keyword calls match with BDD prefixes, qualifiers and embedded arguments', () => {
+    const matches = createKeywordMatcher('Open Login Page');
+    assert.ok(matches('open_login page'));
+    assert.ok(matches('When Open Login Page'));
+    assert.ok(matches('login_page.Open Login Page'));
+    assert.ok(!matches('Open Login'));
+
+    const embedded = createKeywordMatcher('Click ${element} Twice');
+    assert.ok(embedded('click OK twice'));
+    assert.ok(embedded('And Click "Save" Twice'));
+    assert.ok(!embedded('Click Twice'));
+});
+
+test('usage covers keyword settings, bodies and variables in any section', () => {
+    const usage = collectFileUsage([
+        '*** Settings ***',
+        'Library    Collections',
+        'Resource    ${RESOURCES}/common.resource',
+        'Test Setup    Prepare    ${user.name}',
+        '',
+        '*** Test Cases ***',
+        'Example',
+        '    ${value} =    Get Value    @{ITEMS}[0]'
+    ].join('\n'));
+
+    assert.deepStrictEqual(usage.cells, ['Prepare', '${user.name}', '${value} =', 'Get Value', '@{ITEMS}[0]']);
+    assert.deepStrictEqual([...usage.variables].sort(), ['items', 'resources', 'user', 'user.name', 'value']);
+});
+
+test('keyword call cells skip assignments, control structures and NONE', () => {
+    const calls = findKeywordCallTokens([
+        '*** Settings ***',
+        'Suite Setup    Open Session',
+        'Test Teardown    NONE',
+        '',
+        '*** Keywords ***',
+        'Example',
+        '    [Setup]    Prepare',
+        '    [Arguments]    ${name}',
+        '    ${first}    ${second} =    Split Name',
+        '    FOR    ${item}    IN    @{items}',
+        '        Log    ${item}',
+        '    END',
+        '    IF    $name    Log Name'
+    ].join('\n'));
+
+    assert.deepStrictEqual(calls.map(token => [token.value, token.line]), [
+        ['Open Session', 1],
+        ['Prepare', 6],
+        ['Split Name', 8],
+        ['Log', 10]
+    ]);
+});
@@ -0,0 +1,130 @@
+import * as path from 'path';
+import Module = require('module');
+
+// Stand-in for the parts of the vscode module the tested code uses, so it runs under plain node.
+// Import this file before the modules under test: it makes `require('vscode')` return it.
+
+// Setting values by full key, e.g. `rfFilesCreator.languages`; unset keys return the default
+export const settings: { [key: string]: unknown } = {};
+
+// Edits passed to workspace.applyEdit, in order
+export const appliedEdits: WorkspaceEdit[] = [];
+
+let workspaceRoot: string | undefined;
+let workspaceFiles: string[] = [];
+const renameListeners: ((event: { files: { oldUri: Uri; newUri: Uri }[] }) => void)[] = [];
+const applyEditWaiters: (() => void)[] = [];
+
+export class Uri {
+    readonly scheme = 'file';
+
+    private constructor(readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri(path.normalize(fsPath));
+    }
+
+    toString(): string {
+        return `file://${this.fsPath}`;
+    }
+}
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+        this.start = new Position(startLine, startCharacter);
+        this.end = new Position(endLine, endCharacter);
+    }
+}
+
+export class WorkspaceEdit {
+    readonly replacements: { uri: Uri; range: Range; newText: string }[] = [];
+
+    replace(uri: Uri, range: Range, newText: string): void {
+        this.replacements.push({ uri, range, newText });
+    }
+}
+
+export class CodeActionKind {
+    static readonly QuickFix = new CodeActionKind('quickfix');
+    static readonly Source = new CodeActionKind('source');
+
+    private constructor(readonly value: string) {}
+}
+
+export enum DiagnosticSeverity { Error, Warning, Information, Hint }
+
+export enum DiagnosticTag { Unnecessary = 1, Deprecated = 2 }
+
+export const workspace = {
+    getConfiguration: (section?: string) => ({
+        get: <T>(key: string, defaultValue?: T): T | undefined => {
+            const fullKey = section ? `${section}.${key}` : key;
+            return fullKey in settings ? settings[fullKey] as T : defaultValue;
+        }
+    }),
+    get workspaceFolders() {
+        return workspaceRoot ? [{ uri: Uri.file(workspaceRoot), name: path.basename(workspaceRoot), index: 0 }] : undefined;
+    },
+    getWorkspaceFolder: (uri: Uri) => {
+        const inside = workspaceRoot && !path.relative(workspaceRoot, uri.fsPath).startsWith('..');
+        return inside ? workspace.workspaceFolders![0] : undefined;
+    },
+    asRelativePath: (filePath: string | Uri) => {
+        const fsPath = typeof filePath === 'string' ? filePath : filePath.fsPath;
+        return workspaceRoot ? path.relative(workspaceRoot, fsPath).split(path.sep).join('/') : fsPath;
+    },
+    findFiles: async () => workspaceFiles.map(file => Uri.file(file)),
+    textDocuments: [] as unknown[],
+    applyEdit: async (edit: WorkspaceEdit) => {
+        appliedEdits.push(edit);
+        applyEditWaiters.splice(0).forEach(resolve => resolve());
+        return true;
+    },
+    onDidRenameFiles: (listener: (typeof renameListeners)[number]) => {
+        renameListeners.push(listener);
+        return { dispose: () => undefined };
+    }
+};
+
+export const window = {
+    showInformationMessage: async () => undefined,
+    showWarningMessage: async () => undefined,
+    showErrorMessage: async () => undefined
+};
+
+/**
+ * Set the workspace folder and the files findFiles returns
+ */
+export function setWorkspace(root: string | undefined, files: string[] = []): void {
+    workspaceRoot = root;
+    workspaceFiles = files;
+}
+
+/**
+ * Report renamed files to the onDidRenameFiles listeners
+ */
+export function fireRenameFiles(files: { oldPath: string; newPath: string }[]): void {
+    const event = { files: files.map(file => ({ oldUri: Uri.file(file.oldPath), newUri: Uri.file(file.newPath) })) };
+    renameListeners.forEach(listener => listener(event));
+}
+
+/**
+ * Wait until the next workspace.applyEdit call
+ */
+export function waitForApplyEdit(): Promise<void> {
+    return new Promise(resolve => applyEditWaiters.push(resolve));
+}
+
+// Resolve `vscode` to this file for every module loaded after it
+const moduleWithResolver = Module as unknown as { _resolveFilename: (request: string, ...rest: unknown[]) => string };
+const resolveFilename = moduleWithResolver._resolveFilename;
+moduleWithResolver._resolveFilename = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? __filename : resolveFilename.call(this, request, ...rest);
+};
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { ImportType } from '../types';
+import { ImportType, ExistingImport } from '../types';
+import { formatImportDetails } from '../parsers';
 
 // Tree item for import selection
 export class ImportTreeItem extends vscode.TreeItem {
@@ -13,6 +14,11 @@ export class ImportTreeItem extends vscode.TreeItem {
     availableImportTypes: ImportType[] = [];
     isSuggested: boolean = false;
     isCurrentlyViewed: boolean = false; // Whether this file is currently open in editor
+    importArgs: string[] = []; // Arguments passed to the import
+    importAlias: string = ''; // Library alias (AS / WITH NAME)
+    importAliasMarker: string = ''; // Alias marker as written in the file
+    importName: string = ''; // Module name used instead of a path for Library imports
+    existingImport: ExistingImport | null = null; // Import this item represents in the Current Imports section
 
     constructor(
         public readonly label: string,
@@ -27,6 +33,10 @@ export class ImportTreeItem extends vscode.TreeItem {
             availableImportTypes?: ImportType[];
             isSuggested?: boolean;
             isCurrentlyViewed?: boolean;
+            importArgs?: string[];
+            importAlias?: string;
+            importAliasMarker?: string;
+            importName?: string;
         }
     ) {
         super(label, collapsibleState);
@@ -40,6 +50,10 @@ export class ImportTreeItem extends vscode.TreeItem {
             this.availableImportTypes = options.availableImportTypes || [];
             this.isSuggested = options.isSuggested ?? false;
             this.isCurrentlyViewed = options.isCurrentlyViewed ?? false;
+            this.importArgs = options.importArgs || [];
+            this.importAlias = options.importAlias || '';
+            this.importAliasMarker = options.importAliasMarker || '';
+            this.importName = options.importName || '';
         }
 
         this.updateAppearance();
@@ -70,6 +84,16 @@ export class ImportTreeItem extends vscode.TreeItem {
             let description = '';
             if (this.selectedImportType) {
                 description = `→ ${this.selectedImportType}`;
+
+                // Show import arguments and alias
+                const details = formatImportDetails({
+                    args: this.importArgs,
+                    alias: this.importAlias,
+                    aliasMarker: this.importAliasMarker
+                });
+                if (details) {
+                    description += ` (${details})`;
+                }
             } else {
                 description = `(${this.availableImportTypes.join(' | ')})`;
             }
@@ -3,6 +3,13 @@ import * as path from 'path';
 import { ImportType, ExistingImport, ExtractedKeyword, SelectedKeywordInfo } from '../types';
 import { ImportTreeItem, KeywordTreeItem } from './items';
 import { isFileCurrentlyViewed } from '../file-view-tracker';
+import { formatImportDetails } from '../parsers';
+import { formatKeywordArgument, describeArgumentKind } from '../keyword-arguments';
+import { resolveImport, isModuleName } from '../import-resolver';
+import { ImportedByEntry } from '../import-graph';
+import { ProfileImport, ProfileImportState, getProfileImportLabel } from '../import-profiles';
+import { PendingItem, PendingSelection } from '../pending-selections';
+import { readFileContent } from '../file-operations';
 
 // Global state for pending changes - exported for use by other modules
 export let hasPendingChanges: boolean = false;
@@ -16,6 +23,8 @@ export function setHasPendingChanges(value: boolean) {
 export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTreeItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<ImportTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private _onDidChangeSelection = new vscode.EventEmitter<void>();
+    readonly onDidChangeSelection = this._onDidChangeSelection.event; // Fired when the user changes the selection
 
     private rootItems: ImportTreeItem[] = [];
     private allFileItems: ImportTreeItem[] = [];
@@ -24,6 +33,14 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
     private keywords: ExtractedKeyword[] = []; // Keywords to display
     private keywordsSourceFile: string = ''; // File the keywords came from
     private selectedKeywordInfo: SelectedKeywordInfo | null = null; // Currently selected keyword info
+    private matchedExistingImports = new Set<ExistingImport>(); // Existing imports represented by a file item
+    private importedBy: ImportedByEntry[] = []; // Files importing importedBySource
+    private importedBySource: string = ''; // File the Imported By section is shown for
+    private importedByTransitive: boolean = false; // Whether transitive dependents are listed
+    private profileNames: string[] = []; // Profiles shown in the Import Profile section
+    private profileStates: ProfileImportState[] = []; // Profile imports and whether the target file has them
+    private addedImports: ExistingImport[] = []; // Profile imports without a file item, written on confirm
+    private initialStates = new Map<string, string>(); // Selection state of each file item as read from the target file
 
     constructor(
         private allFiles: vscode.Uri[],
@@ -40,6 +57,24 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         vscode.commands.executeCommand('setContext', 'rfHasPendingChanges', false);
     }
 
+    /**
+     * Read the target file content, used to expand its variables when resolving imports
+     */
+    private readTargetContent(): string {
+        try {
+            return readFileContent(this.targetFile);
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Get the file whose imports are being edited
+     */
+    public getTargetFile(): string {
+        return this.targetFile;
+    }
+
     /**
      * Set keywords to display in the tree
      */
@@ -82,6 +117,153 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Show the files importing a file in the Imported By section
+     */
+    public setImportedBy(sourceFile: string, importers: ImportedByEntry[], transitive: boolean): void {
+        this.importedBy = importers;
+        this.importedBySource = sourceFile;
+        this.importedByTransitive = transitive;
+        this.buildTree();
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Get the file shown in the Imported By section and whether transitive dependents are listed
+     */
+    public getImportedBySource(): { filePath: string; transitive: boolean } | undefined {
+        return this.importedBySource ? { filePath: this.importedBySource, transitive: this.importedByTransitive } : undefined;
+    }
+
+    /**
+     * Select the imports of a profile: workspace files are ticked in the tree, imports without
+     * a file item (installed libraries, module names) are kept and written on confirm.
+     * Returns the imports whose file is not in the tree.
+     */
+    public applyProfileImports(imports: ProfileImport[]): ProfileImport[] {
+        const notFound: ProfileImport[] = [];
+
+        for (const imp of imports) {
+            const item = imp.file !== undefined
+                ? this.allFileItems.find(fileItem => fileItem.absolutePath === imp.file && fileItem.availableImportTypes.includes(imp.type))
+                : undefined;
+            if (item) {
+                item.selectedImportType = imp.type;
+                item.importArgs = imp.args || [];
+                item.importAlias = imp.alias || '';
+                item.importAliasMarker = imp.aliasMarker || '';
+                item.importName = imp.name || '';
+                item.updateAppearance();
+                continue;
+            }
+            if (imp.name === undefined) {
+                notFound.push(imp);
+                continue;
+            }
+
+            const isKept = [...this.existingImports, ...this.addedImports].some(existing =>
+                existing.type === imp.type && existing.path.trim() === imp.name);
+            if (!isKept) {
+                this.addedImports.push({ type: imp.type, path: imp.name, args: imp.args, alias: imp.alias, aliasMarker: imp.aliasMarker });
+            }
+        }
+
+        this.refresh();
+        this.markPendingChanges();
+        return notFound;
+    }
+
+    /**
+     * Get the selection state of a file item
+     */
+    private toPendingItem(item: ImportTreeItem): PendingItem {
+        return {
+            filePath: item.filePath,
+            importType: item.selectedImportType,
+            args: item.importArgs,
+            alias: item.importAlias,
+            aliasMarker: item.importAliasMarker,
+            importName: item.importName
+        };
+    }
+
+    /**
+     * Set the selection state of the file items matching pending items; returns how many were applied
+     */
+    private applyPendingItems(items: PendingItem[]): number {
+        let applied = 0;
+        for (const pendingItem of items) {
+            const item = this.allFileItems.find(fileItem => fileItem.filePath === pendingItem.filePath);
+            if (!item || (pendingItem.importType !== null && !item.availableImportTypes.includes(pendingItem.importType))) continue;
+
+            item.selectedImportType = pendingItem.importType;
+            item.importArgs = pendingItem.args;
+            item.importAlias = pendingItem.alias;
+            item.importAliasMarker = pendingItem.aliasMarker;
+            item.importName = pendingItem.importName;
+            item.updateAppearance();
+            applied++;
+        }
+        return applied;
+    }
+
+    /**
+     * Get the changes made in the tree since it was loaded from the target file
+     */
+    public getPendingSelection(): PendingSelection {
+        return {
+            items: this.allFileItems
+                .map(item => this.toPendingItem(item))
+                .filter(pendingItem => this.initialStates.get(pendingItem.filePath) !== JSON.stringify(pendingItem)),
+            addedImports: this.addedImports
+        };
+    }
+
+    /**
+     * Restore changes that were not confirmed before the tree was disposed or the window reloaded.
+     * Returns the number of restored changes.
+     */
+    public restorePendingSelection(selection: PendingSelection): number {
+        const applied = this.applyPendingItems(selection.items);
+        const added = selection.addedImports.filter(imp => !this.addedImports.some(existing =>
+            existing.type === imp.type && existing.path === imp.path));
+        this.addedImports.push(...added);
+
+        if (applied + added.length > 0) {
+            this.refresh();
+            setHasPendingChanges(true);
+        }
+        return applied + added.length;
+    }
+
+    /**
+     * Flag pending changes and notify listeners that the selection changed
+     */
+    private markPendingChanges(): void {
+        setHasPendingChanges(true);
+        this._onDidChangeSelection.fire();
+    }
+
+    /**
+     * Show profile imports in the Import Profile section without rebuilding the file tree,
+     * so selections that are not confirmed yet are kept
+     */
+    public setProfileStates(profileNames: string[], states: ProfileImportState[]): void {
+        this.profileNames = profileNames;
+        this.profileStates = states;
+
+        this.rootItems = this.rootItems.filter(item => item.contextValue !== 'importProfileSection');
+        const profileSection = this.createProfileSection();
+        if (profileSection) {
+            const currentImportsIndex = this.rootItems.findIndex(item => item.contextValue === 'currentImportsSection');
+            this.rootItems.splice(currentImportsIndex >= 0 ? currentImportsIndex + 1 : Math.min(1, this.rootItems.length), 0, profileSection);
+        }
+        if (this.searchFilter) {
+            this.applyFilter();
+        }
+        this.refresh();
+    }
+
     /**
      * Refresh the tree to update current file indicator without changing content
      * This updates the indicator on file items without collapsing expanded folders
@@ -102,8 +284,12 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
     }
 
     private buildTree() {
+        // Rebuilding recreates the file items, so carry over changes that are not confirmed yet
+        const pending = this.allFileItems.length > 0 ? this.getPendingSelection() : undefined;
+
         this.rootItems = [];
         this.allFileItems = [];
+        this.matchedExistingImports.clear();
 
         // Get the currently active editor file path
         const activeFilePath = vscode.window.activeTextEditor?.document.uri.fsPath;
@@ -111,11 +297,23 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         // Use all files for the unified tree (main section first)
         const allFilesSection = this.createUnifiedFileTree(this.allFiles, activeFilePath);
         if (allFilesSection) this.rootItems.push(allFilesSection);
+        this.initialStates = new Map(this.allFileItems.map(item => [item.filePath, JSON.stringify(this.toPendingItem(item))]));
+        if (pending) {
+            this.applyPendingItems(pending.items);
+        }
 
         // Create Current Imports section below (if there are existing imports)
         const currentImportsSection = this.createCurrentImportsSection();
         if (currentImportsSection) this.rootItems.push(currentImportsSection);
 
+        // Create Import Profile section (if a profile was applied or checked)
+        const profileSection = this.createProfileSection();
+        if (profileSection) this.rootItems.push(profileSection);
+
+        // Create Imported By section (if a reverse lookup was requested)
+        const importedBySection = this.createImportedBySection();
+        if (importedBySection) this.rootItems.push(importedBySection);
+
         // Create Keywords section (if there are keywords)
         const keywordsSection = this.createKeywordsSection();
         if (keywordsSection) this.rootItems.push(keywordsSection);
@@ -146,9 +344,14 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
                     isFile: false // Not a selectable file, just display
                 }
             );
-            importItem.description = imp.type;
+            importItem.existingImport = imp;
             importItem.contextValue = 'currentImport';
 
+            // Show import type followed by arguments and alias
+            const details = formatImportDetails(imp);
+            importItem.description = details ? `${imp.type}  ${details}` : imp.type;
+            importItem.tooltip = details ? `${imp.type}    ${imp.path}    ${details}` : `${imp.type}    ${imp.path}`;
+
             // Set icon based on import type
             if (imp.type === 'Library') {
                 importItem.iconPath = new vscode.ThemeIcon('library');
@@ -164,6 +367,69 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         return sectionItem;
     }
 
+    /**
+     * Create a section listing the imports of the applied or checked profiles
+     */
+    private createProfileSection(): ImportTreeItem | null {
+        if (this.profileNames.length === 0) return null;
+
+        const missingCount = this.profileStates.filter(entry => entry.state === 'missing').length;
+        const sectionItem = new ImportTreeItem(
+            `Import Profile: ${this.profileNames.join(', ')}`,
+            vscode.TreeItemCollapsibleState.Expanded
+        );
+        sectionItem.iconPath = new vscode.ThemeIcon('bookmark');
+        sectionItem.description = missingCount > 0 ? `${missingCount} missing` : 'all imported or selected';
+        sectionItem.contextValue = 'importProfileSection';
+
+        for (const entry of this.profileStates) {
+            const label = getProfileImportLabel(entry.imp);
+            const profileItem = new ImportTreeItem(path.basename(label), vscode.TreeItemCollapsibleState.None);
+            profileItem.contextValue = 'profileImport';
+            profileItem.description = `${entry.imp.type}  ${entry.state}`;
+            profileItem.tooltip = `${entry.imp.type}    ${label}`;
+            profileItem.iconPath = new vscode.ThemeIcon(
+                entry.state === 'imported' ? 'pass' : entry.state === 'selected' ? 'add' : 'warning'
+            );
+            sectionItem.children.push(profileItem);
+        }
+
+        return sectionItem;
+    }
+
+    /**
+     * Create a section listing the files that import a file, directly or transitively
+     */
+    private createImportedBySection(): ImportTreeItem | null {
+        if (!this.importedBySource) return null;
+
+        const sectionItem = new ImportTreeItem(
+            `Imported By ${path.basename(this.importedBySource)} (${this.importedBy.length})`,
+            vscode.TreeItemCollapsibleState.Expanded
+        );
+        sectionItem.iconPath = new vscode.ThemeIcon('references');
+        sectionItem.description = this.importedByTransitive ? 'direct and transitive' : 'direct';
+        sectionItem.tooltip = this.importedBySource;
+        sectionItem.contextValue = 'importedBySection';
+
+        for (const entry of this.importedBy) {
+            const relativePath = path.relative(this.workspaceRoot, entry.filePath).replace(/\\/g, '/');
+            const importerItem = new ImportTreeItem(path.basename(entry.filePath), vscode.TreeItemCollapsibleState.None);
+            importerItem.contextValue = 'importingFile';
+            importerItem.description = entry.via ? `${relativePath} (via ${path.basename(entry.via)})` : relativePath;
+            importerItem.tooltip = entry.via ? `${entry.filePath}\nImports ${entry.via}` : entry.filePath;
+            importerItem.iconPath = new vscode.ThemeIcon(entry.via ? 'file-symlink-file' : 'file-submodule');
+            importerItem.command = {
+                command: 'rfFilesCreator.openImportingFile',
+                title: 'Open File',
+                arguments: [entry.filePath]
+            };
+            sectionItem.children.push(importerItem);
+        }
+
+        return sectionItem;
+    }
+
     /**
      * Create a section showing available keywords from a file
      */
@@ -178,55 +444,106 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         sectionItem.iconPath = new vscode.ThemeIcon('symbol-method');
         sectionItem.contextValue = 'keywordsSection';
 
-        for (const keyword of this.keywords) {
-            const keywordItem = new ImportTreeItem(
-                keyword.name,
-                keyword.args.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+        // Group keywords by class when a module contains several libraries
+        const libraryNames = [...new Set(this.keywords.map(keyword => keyword.library || ''))];
+        if (libraryNames.length > 1) {
+            for (const libraryName of libraryNames) {
+                const libraryKeywords = this.keywords.filter(keyword => (keyword.library || '') === libraryName);
+                const libraryItem = new ImportTreeItem(
+                    `${libraryName || fileName} (${libraryKeywords.length})`,
+                    vscode.TreeItemCollapsibleState.Expanded
+                );
+                libraryItem.iconPath = new vscode.ThemeIcon('symbol-class');
+                libraryItem.contextValue = 'keywordLibrary';
+                libraryItem.children = libraryKeywords.map(keyword => this.createKeywordItem(keyword));
+                sectionItem.children.push(libraryItem);
+            }
+        } else {
+            sectionItem.children = this.keywords.map(keyword => this.createKeywordItem(keyword));
+        }
+
+        return sectionItem;
+    }
+
+    /**
+     * Create a tree item for a keyword with its arguments as children
+     */
+    private createKeywordItem(keyword: ExtractedKeyword): ImportTreeItem {
+        const keywordItem = new ImportTreeItem(
+            keyword.name,
+            keyword.arguments.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+            {
+                isFile: false
+            }
+        );
+
+        // Show the first documentation line as description
+        keywordItem.description = keyword.doc ? keyword.doc.split('\n')[0].substring(0, 80) : '';
+
+        // Show full documentation and tags as tooltip
+        keywordItem.tooltip = this.createKeywordTooltip(keyword);
+        keywordItem.iconPath = new vscode.ThemeIcon('symbol-method');
+        keywordItem.contextValue = 'keyword';
+
+        // Set up command to select keyword and show info when clicked
+        keywordItem.command = {
+            command: 'rfFilesCreator.selectKeywordForInfo',
+            title: 'View Keyword Info',
+            arguments: [{
+                keyword: keyword,
+                sourceFile: this.keywordsSourceFile,
+                libraryName: keyword.library || path.basename(this.keywordsSourceFile)
+            }]
+        };
+
+        // Add argument items as children if there are arguments
+        keywordItem.children = this.createArgumentItems(keyword);
+
+        return keywordItem;
+    }
+
+    /**
+     * Create items for keyword arguments showing their kind, type and default value
+     */
+    private createArgumentItems(keyword: ExtractedKeyword): ImportTreeItem[] {
+        return keyword.arguments.map(arg => {
+            const argItem = new ImportTreeItem(
+                formatKeywordArgument(arg),
+                vscode.TreeItemCollapsibleState.None,
                 {
                     isFile: false
                 }
             );
 
-            // Show documentation as description if available
-            keywordItem.description = keyword.doc ? keyword.doc.substring(0, 80) : '';
-
-            // Show documentation as tooltip
-            keywordItem.tooltip = keyword.doc || 'No description';
-            keywordItem.iconPath = new vscode.ThemeIcon('symbol-method');
-            keywordItem.contextValue = 'keyword';
-
-            // Set up command to select keyword and show info when clicked
-            keywordItem.command = {
-                command: 'rfFilesCreator.selectKeywordForInfo',
-                title: 'View Keyword Info',
-                arguments: [{
-                    keyword: keyword,
-                    sourceFile: this.keywordsSourceFile,
-                    libraryName: path.basename(this.keywordsSourceFile)
-                }]
-            };
-
-            // Add argument items as children if there are arguments
-            if (keyword.args.length > 0) {
-                for (const arg of keyword.args) {
-                    const argItem = new ImportTreeItem(
-                        arg,
-                        vscode.TreeItemCollapsibleState.None,
-                        {
-                            isFile: false
-                        }
-                    );
-                    argItem.iconPath = new vscode.ThemeIcon('symbol-parameter');
-                    argItem.description = '';
-                    argItem.contextValue = 'argument';
-                    keywordItem.children.push(argItem);
-                }
+            // Icon by argument kind
+            if (arg.kind === 'varargs' || arg.kind === 'kwargs') {
+                argItem.iconPath = new vscode.ThemeIcon('symbol-array');
+            } else if (arg.kind === 'embedded') {
+                argItem.iconPath = new vscode.ThemeIcon('symbol-string');
+            } else {
+                argItem.iconPath = new vscode.ThemeIcon('symbol-parameter');
             }
 
-            sectionItem.children.push(keywordItem);
-        }
+            const details = [describeArgumentKind(arg)];
+            if (arg.type) details.push(`type: ${arg.type}`);
+            if (arg.defaultValue !== undefined) details.push(`default: ${arg.defaultValue === '' ? "''" : arg.defaultValue}`);
+            argItem.description = details.join(' · ');
+            argItem.contextValue = 'argument';
+            return argItem;
+        });
+    }
 
-        return sectionItem;
+    /**
+     * Create a tooltip with the full documentation and tags of a keyword
+     */
+    private createKeywordTooltip(keyword: ExtractedKeyword): vscode.MarkdownString {
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${keyword.name}**\n\n`);
+        tooltip.appendText(keyword.doc || 'No description');
+        if (keyword.tags.length > 0) {
+            tooltip.appendMarkdown(`\n\n*Tags:* ${keyword.tags.join(', ')}`);
+        }
+        return tooltip;
     }
 
     /**
@@ -250,25 +567,52 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
             vscode.TreeItemCollapsibleState.None,
             { isFile: false }
         );
-        docItem.description = keyword.doc || 'No description';
-        docItem.tooltip = keyword.doc || 'No documentation available';
+        docItem.description = keyword.doc ? keyword.doc.split('\n')[0] : 'No description';
+        docItem.tooltip = keyword.doc ? this.createKeywordTooltip(keyword) : 'No documentation available';
         docItem.iconPath = new vscode.ThemeIcon('comment');
         docItem.contextValue = 'keywordInfo';
         sectionItem.children.push(docItem);
 
-        // Arguments item
-        if (keyword.args.length > 0) {
+        // Arguments item with one child per argument
+        if (keyword.arguments.length > 0) {
             const argsItem = new ImportTreeItem(
                 `Arguments`,
-                vscode.TreeItemCollapsibleState.None,
+                vscode.TreeItemCollapsibleState.Expanded,
                 { isFile: false }
             );
-            argsItem.description = `[${keyword.args.join(', ')}]`;
+            argsItem.description = `${keyword.arguments.length}`;
             argsItem.iconPath = new vscode.ThemeIcon('symbol-parameter');
             argsItem.contextValue = 'keywordInfo';
+            argsItem.children = this.createArgumentItems(keyword);
             sectionItem.children.push(argsItem);
         }
 
+        // Tags item
+        if (keyword.tags.length > 0) {
+            const tagsItem = new ImportTreeItem(
+                `Tags`,
+                vscode.TreeItemCollapsibleState.None,
+                { isFile: false }
+            );
+            tagsItem.description = keyword.tags.join(', ');
+            tagsItem.iconPath = new vscode.ThemeIcon('tag');
+            tagsItem.contextValue = 'keywordInfo';
+            sectionItem.children.push(tagsItem);
+        }
+
+        // Timeout item
+        if (keyword.timeout) {
+            const timeoutItem = new ImportTreeItem(
+                `Timeout`,
+                vscode.TreeItemCollapsibleState.None,
+                { isFile: false }
+            );
+            timeoutItem.description = keyword.timeout;
+            timeoutItem.iconPath = new vscode.ThemeIcon('watch');
+            timeoutItem.contextValue = 'keywordInfo';
+            sectionItem.children.push(timeoutItem);
+        }
+
         // Library/Resource item
         const libItem = new ImportTreeItem(
             `Source`,
@@ -276,7 +620,7 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
             { isFile: false }
         );
         libItem.description = libraryName;
-        libItem.tooltip = `File: ${sourceFile}`;
+        libItem.tooltip = path.isAbsolute(sourceFile) ? `File: ${sourceFile}` : `Standard library: ${sourceFile}`;
         libItem.iconPath = new vscode.ThemeIcon('file-code');
         libItem.contextValue = 'keywordInfo';
         sectionItem.children.push(libItem);
@@ -324,15 +668,27 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         const getRelativePath = (filePath: string) => path.relative(this.targetDir, filePath).replace(/\\/g, '/');
         const getAbsolutePath = (filePath: string) => path.relative(this.workspaceRoot, filePath).replace(/\\/g, '/');
 
-        // Find existing import type for a file
-        const findExistingImportType = (importPath: string): ImportType | null => {
+        // Resolve existing imports to files the way Robot Framework does (paths and module names)
+        const targetContent = this.readTargetContent();
+        const resolvedImports = new Map<string, ExistingImport>();
+        for (const imp of this.existingImports) {
+            const resolved = resolveImport(imp, this.targetFile, targetContent);
+            if (resolved && !resolvedImports.has(path.normalize(resolved))) {
+                resolvedImports.set(path.normalize(resolved), imp);
+            }
+        }
+        const resolvedImportSet = new Set(resolvedImports.values());
+
+        // Find an unresolved existing import for a file by comparing path strings
+        const findExistingImport = (importPath: string): ExistingImport | null => {
             for (const imp of this.existingImports) {
+                if (resolvedImportSet.has(imp)) continue;
                 const normalizedExisting = imp.path.replace(/\\/g, '/');
                 const normalizedNew = importPath.replace(/\\/g, '/');
 
                 // Exact match
                 if (normalizedExisting === normalizedNew) {
-                    return imp.type;
+                    return imp;
                 }
 
                 // Match if existing ends with the new path with proper path boundary
@@ -346,7 +702,7 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
                         const beforeMatch = normalizedExisting.substring(0, idx);
                         // Either at start, or preceded by a path separator
                         if (beforeMatch === '' || beforeMatch.endsWith('/')) {
-                            return imp.type;
+                            return imp;
                         }
                     }
                 }
@@ -358,7 +714,7 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
                     if (idx >= 0) {
                         const beforeMatch = normalizedNew.substring(0, idx);
                         if (beforeMatch === '' || beforeMatch.endsWith('/')) {
-                            return imp.type;
+                            return imp;
                         }
                     }
                 }
@@ -425,7 +781,11 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
             }
 
             // Find if this file has an existing import
-            const existingType = findExistingImportType(relativePath) || findExistingImportType(absPath);
+            const existingImport = resolvedImports.get(path.normalize(file.fsPath)) ||
+                findExistingImport(relativePath) || findExistingImport(absPath);
+            if (existingImport) {
+                this.matchedExistingImports.add(existingImport);
+            }
 
             // Check if this file is suggested
             const suggested = isFileSuggested(file);
@@ -446,10 +806,15 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
                     relativePath,
                     absolutePath: absPath,
                     fileExtension: path.extname(file.fsPath),
-                    selectedImportType: existingType,
+                    selectedImportType: existingImport ? existingImport.type : null,
                     availableImportTypes,
                     isSuggested: suggested,
-                    isCurrentlyViewed: isCurrentlyViewed || false
+                    isCurrentlyViewed: isCurrentlyViewed || false,
+                    importArgs: existingImport?.args,
+                    importAlias: existingImport?.alias,
+                    importAliasMarker: existingImport?.aliasMarker,
+                    // Keep module name imports as written instead of converting them to paths
+                    importName: existingImport?.type === 'Library' && isModuleName(existingImport.path) ? existingImport.path : undefined
                 }
             );
             currentParent.children.push(fileItem);
@@ -585,6 +950,15 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         return this.allFileItems.filter(item => item.selectedImportType !== null);
     }
 
+    /**
+     * Get existing imports that are not represented by any file in the tree
+     * (e.g. installed libraries like SeleniumLibrary) and profile imports without a file item,
+     * so they are kept on confirm
+     */
+    getUnmatchedExistingImports(): ExistingImport[] {
+        return [...this.existingImports.filter(imp => !this.matchedExistingImports.has(imp)), ...this.addedImports];
+    }
+
     setImportType(item: ImportTreeItem, importType: ImportType | null): void {
         // Validate import type is available or null
         if (importType !== null && !item.availableImportTypes.includes(importType)) {
@@ -593,11 +967,38 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         }
 
         item.selectedImportType = importType;
+
+        // Resources take no arguments and only libraries can have an alias or a module name
+        if (importType !== 'Library') {
+            item.importAlias = '';
+            item.importAliasMarker = '';
+            item.importName = '';
+        }
+        if (importType === 'Resource') {
+            item.importArgs = [];
+        }
+
         item.updateAppearance();
         this.refresh(item);
 
         // Set the pending changes flag
-        setHasPendingChanges(true);
+        this.markPendingChanges();
+    }
+
+    /**
+     * Set the arguments and alias used when importing a file
+     */
+    setImportDetails(item: ImportTreeItem, args: string[], alias: string): void {
+        item.importArgs = args;
+        item.importAlias = alias;
+        if (!alias) {
+            item.importAliasMarker = '';
+        }
+        item.updateAppearance();
+        this.refresh(item);
+
+        // Set the pending changes flag
+        this.markPendingChanges();
     }
 
     toggleSelection(item: ImportTreeItem, checked: boolean): void {
@@ -612,7 +1013,7 @@ export class ImportTreeDataProvider implements vscode.TreeDataProvider<ImportTre
         this.refresh(item);
 
         // Set the pending changes flag
-        setHasPendingChanges(true);
+        this.markPendingChanges();
     }
 }
 
@@ -1,11 +1,23 @@
 // Path type options
-export type PathType = 'relative' | 'absolute';
+export type PathType = 'relative' | 'absolute' | 'module';
 export type ImportType = 'Library' | 'Resource' | 'Variables';
 
 // Existing import parsed from file
 export interface ExistingImport {
     type: ImportType;
     path: string;
+    args?: string[]; // Import arguments (Library and Variables imports)
+    alias?: string; // Library alias given with AS / WITH NAME
+    aliasMarker?: string; // Marker used in the file ('AS' or 'WITH NAME')
+    location?: ImportLocation; // Where the import is written in the parsed file
+}
+
+// Position of an import statement in a file
+export interface ImportLocation {
+    startLine: number;
+    endLine: number; // Last `...` continuation line
+    settingToken: RobotToken;
+    pathToken: RobotToken;
 }
 
 // Selected item for import generation
@@ -15,15 +27,39 @@ export interface SelectedItem {
     relativePath: string;
     absolutePath: string;
     importType?: ImportType;
+    args?: string[];
+    alias?: string;
+    aliasMarker?: string;
+    importName?: string; // Module name import kept as written (e.g. `Libraries.pages.login_page`)
 }
 
 export type SelectionResult = SelectedItem[] | null; // null indicates cancellation
 
+// Kind of a keyword argument
+export type KeywordArgumentKind =
+    | 'positional' // ${arg} / arg
+    | 'varargs' // @{args} / *args
+    | 'namedOnly' // Arguments after varargs or a bare `*`
+    | 'kwargs' // &{kwargs} / **kwargs
+    | 'embedded'; // ${arg} inside the keyword name
+
+// Argument of an extracted keyword
+export interface KeywordArgument {
+    name: string; // Argument name without decoration (e.g. `timeout`)
+    kind: KeywordArgumentKind;
+    defaultValue?: string;
+    type?: string;
+}
+
 // Keyword extracted from files
 export interface ExtractedKeyword {
     name: string;
-    args: string[];
-    doc: string;
+    args: string[]; // Arguments formatted for display (e.g. `${timeout: int}=10`)
+    doc: string; // Full documentation, rows separated by newlines
+    library?: string; // Class or module providing the keyword (Python libraries)
+    arguments: KeywordArgument[];
+    tags: string[];
+    timeout?: string;
 }
 
 // Selected keyword with source information for display
@@ -32,3 +68,58 @@ export interface SelectedKeywordInfo {
     sourceFile: string;
     libraryName: string; // Library or resource file name
 }
+
+// Robot Framework document model
+export type RobotSectionType =
+    | 'settings'
+    | 'variables'
+    | 'testCases'
+    | 'tasks'
+    | 'keywords'
+    | 'comments'
+    | 'implicitComment' // Content before the first section header
+    | 'invalid'; // Unrecognized section header
+
+// Single data cell with its position (0-based line and column)
+export interface RobotToken {
+    value: string;
+    line: number;
+    column: number;
+}
+
+// Logical statement, including its `...` continuation rows
+export interface RobotStatement {
+    name: string; // Setting name in lower case English (e.g. `library`, `[documentation]`), else the first token lower cased
+    tokens: RobotToken[]; // Data tokens without separators, `...` markers and comments
+    startLine: number;
+    endLine: number;
+}
+
+export interface RobotSection {
+    type: RobotSectionType;
+    header: string; // Header as written, e.g. `*** Test Case ***`
+    headerLine: number; // -1 for the implicit comment section
+    endLine: number; // Last line belonging to the section
+    statements: RobotStatement[];
+}
+
+// Test case, task or user keyword
+export interface RobotBlock {
+    name: string;
+    nameToken: RobotToken;
+    startLine: number;
+    endLine: number;
+    statements: RobotStatement[]; // Body statements, including [Setting] rows
+}
+
+export interface RobotDocument {
+    lines: string[];
+    eol: string; // Line ending used by the file
+    bom: string; // Byte order mark, if any
+    languages: string[]; // Active language codes, file `language:` markers first ('en' is always last)
+    sections: RobotSection[];
+    settings: RobotStatement[];
+    variables: RobotStatement[];
+    testCases: RobotBlock[]; // Test cases and tasks
+    keywords: RobotBlock[];
+}
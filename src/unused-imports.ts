@@ -0,0 +1,145 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { ExistingImport, ExtractedKeyword } from './types';
+import { parseExistingImports, extractKeywordsFromFile, extractKeywordsFromRobotFile } from './parsers';
+import { resolveImport, collectFileVariables, normalizeVariableName } from './import-resolver';
+import { findLibraryKeywords } from './libdoc';
+import { collectFileUsage, createKeywordMatcher, FileUsage } from './keyword-usage';
+
+// Keywords and variables an import makes available
+interface ImportProvides {
+    keywords: ExtractedKeyword[];
+    variables: Set<string>;
+}
+
+/**
+ * Read a file, returning null if it cannot be read
+ */
+function readFileSafe(filePath: string): string | null {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Collect variable names defined by a variable file (`.py` top-level assignments, YAML/JSON top-level keys).
+ * Returns null for dynamic variable files using `get_variables`.
+ */
+function collectVariableFileNames(filePath: string, content: string): Set<string> | null {
+    const names = new Set<string>();
+    const ext = path.extname(filePath).toLowerCase();
+
+    if (ext === '.py') {
+        if (/^def\s+(get_variables|getVariables)\s*\(/m.test(content)) return null;
+        for (const match of content.matchAll(/^([A-Za-z]\w*)\s*(?::[^=\n]+)?=(?!=)/gm)) {
+            names.add(normalizeVariableName(match[1].replace(/^(LIST|DICT)__/, '')));
+        }
+    } else if (ext === '.json') {
+        try {
+            Object.keys(JSON.parse(content)).forEach(name => names.add(normalizeVariableName(name)));
+        } catch {
+            return null;
+        }
+    } else {
+        for (const match of content.matchAll(/^([^\s#:][^:]*):/gm)) {
+            names.add(normalizeVariableName(match[1].trim().replace(/^["']|["']$/g, '')));
+        }
+    }
+    return names;
+}
+
+/**
+ * Get what an import provides, following the imports of resource files.
+ * Returns null when this cannot be determined (unknown or dynamic libraries).
+ */
+function getImportProvides(
+    imp: ExistingImport,
+    importingFile: string,
+    importingContent: string,
+    visited: Set<string>
+): ImportProvides | null {
+    const resolved = resolveImport(imp, importingFile, importingContent);
+
+    if (imp.type === 'Library') {
+        let keywords: ExtractedKeyword[] = [];
+        if (resolved) {
+            try {
+                keywords = extractKeywordsFromFile(resolved);
+            } catch {
+                return null;
+            }
+        } else {
+            keywords = findLibraryKeywords(imp.path)?.keywords || [];
+        }
+        // Dynamic and installed libraries without metadata cannot be checked
+        return keywords.length > 0 ? { keywords, variables: new Set() } : null;
+    }
+
+    if (!resolved) return null;
+    const content = readFileSafe(resolved);
+    if (content === null) return null;
+
+    if (imp.type === 'Variables') {
+        const variables = collectVariableFileNames(resolved, content);
+        return variables ? { keywords: [], variables } : null;
+    }
+
+    // Resource files also provide everything they import themselves
+    const provides: ImportProvides = {
+        keywords: extractKeywordsFromRobotFile(content),
+        variables: new Set(Object.keys(collectFileVariables(content)))
+    };
+    if (visited.has(resolved)) return provides;
+    visited.add(resolved);
+
+    for (const nested of parseExistingImports(content)) {
+        const nestedProvides = getImportProvides(nested, resolved, content, visited);
+        if (!nestedProvides) return null;
+        provides.keywords.push(...nestedProvides.keywords);
+        nestedProvides.variables.forEach(name => provides.variables.add(name));
+    }
+    return provides;
+}
+
+/**
+ * Check if a file uses any keyword or variable an import provides
+ */
+function isImportUsed(provides: ImportProvides, usage: FileUsage): boolean {
+    for (const name of provides.variables) {
+        if (usage.variables.has(name)) return true;
+    }
+    for (const keyword of provides.keywords) {
+        const matches = createKeywordMatcher(keyword.name);
+        if (usage.cells.some(matches)) return true;
+    }
+    return false;
+}
+
+/**
+ * Collect the keywords a file gets from its imports, including nested resource imports.
+ * Imports that cannot be analyzed contribute nothing.
+ */
+export function collectImportedKeywords(content: string, filePath: string): ExtractedKeyword[] {
+    return parseExistingImports(content).flatMap(imp =>
+        getImportProvides(imp, filePath, content, new Set([filePath]))?.keywords || []
+    );
+}
+
+/**
+ * Find imports of a file whose keywords and variables are never used.
+ * Imports that cannot be analyzed are never reported.
+ */
+export function findUnusedImports(content: string, filePath: string): ExistingImport[] {
+    const usage = collectFileUsage(content);
+    const unused: ExistingImport[] = [];
+
+    for (const imp of parseExistingImports(content)) {
+        const provides = getImportProvides(imp, filePath, content, new Set([filePath]));
+        if (provides && !isImportUsed(provides, usage)) {
+            unused.push(imp);
+        }
+    }
+    return unused;
+}